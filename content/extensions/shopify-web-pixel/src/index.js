@@ -0,0 +1,71 @@
+import { register } from '@shopify/web-pixels-extension';
+
+// Searchspring product view, add to cart and purchase tracking from Shopify's customer events.
+// Web pixels run in a sandbox without the page's DOM, so events go straight to the Beacon API
+// instead of through the IntelliSuggest script.
+register(({ analytics, browser, settings }) => {
+  const siteId = settings.siteId;
+
+  async function send(type, category, event) {
+    const [userId, sessionId] = await Promise.all([browser.cookie.get('ssUserId'), browser.cookie.get('ssSessionIdNamespace')]);
+    const payload = [{
+      category: category,
+      type: type,
+      id: crypto.randomUUID(),
+      context: {
+        pageLoadId: crypto.randomUUID(),
+        userId: userId || 'anonymous',
+        sessionId: sessionId || 'anonymous',
+        website: { trackingCode: siteId }
+      },
+      event: event
+    }];
+    try {
+      await fetch('[[endpoints.beacon.url]]', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        keepalive: true
+      });
+    } catch (error) {
+      console.error('Searchspring beacon error:', error);
+    }
+  }
+
+  // Must match the SKU core field in your Searchspring feed
+  function skuOf(variant) {
+    return (variant && variant.sku) || '';
+  }
+
+  function item(variant, price, quantity) {
+    return { sku: skuOf(variant), price: Number(price) || 0, qty: quantity };
+  }
+
+  analytics.subscribe('product_viewed', (event) => {
+    const variant = event.data.productVariant;
+    send('product.view', 'searchspring.page.view', { sku: skuOf(variant) });
+  });
+
+  // Shopify reports the line that was added rather than the whole cart
+  analytics.subscribe('product_added_to_cart', (event) => {
+    const line = event.data.cartLine;
+    if (!line) return;
+    send('cart.view', 'searchspring.shop.cart', {
+      items: [item(line.merchandise, line.merchandise.price && line.merchandise.price.amount, line.quantity)]
+    });
+  });
+
+  analytics.subscribe('checkout_completed', (event) => {
+    const checkout = event.data.checkout;
+    send('order.transaction', 'searchspring.shop.transaction', {
+      order: {
+        id: String((checkout.order && checkout.order.id) || checkout.token),
+        total: Number(checkout.totalPrice && checkout.totalPrice.amount) || 0,
+        city: (checkout.shippingAddress && checkout.shippingAddress.city) || '',
+        state: (checkout.shippingAddress && checkout.shippingAddress.provinceCode) || '',
+        country: (checkout.shippingAddress && checkout.shippingAddress.countryCode) || ''
+      },
+      items: checkout.lineItems.map((line) => item(line.variant, line.variant && line.variant.price && line.variant.price.amount, line.quantity))
+    });
+  });
+});
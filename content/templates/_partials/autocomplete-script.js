@@ -0,0 +1,33 @@
+// [[platform.label]] autocomplete with the Searchspring Autocomplete API
+const searchInput = document.getElementById('searchspring-input');
+const resultsDiv = document.getElementById('searchspring-autocomplete');
+let debounceTimer;
+
+searchInput.addEventListener('input', function(e) {
+  clearTimeout(debounceTimer);
+  const query = e.target.value;
+
+  if (query.length < 2) {
+    resultsDiv.innerHTML = '';
+    return;
+  }
+
+  debounceTimer = setTimeout(() => {
+    const params = new URLSearchParams({
+      siteId: '[[siteId]]',
+      resultsFormat: 'json',
+      q: query,
+      userId: getUserId(),
+      sessionId: getSessionId()
+    });
+
+    fetch('[[endpoints.autocomplete.url]]?' + params)
+      .then(response => response.json())
+      .then(data => {
+        resultsDiv.innerHTML = data.results.map(product =>
+          '<a class="suggestion" href="' + product.url + '">' + product.name + '</a>'
+        ).join('');
+      })
+      .catch(error => console.error('Autocomplete error:', error));
+  }, 300);
+});
@@ -0,0 +1,26 @@
+// Beacon API client replacing the IntelliSuggest script (is.min.js)
+function searchspringBeacon(type, category, event) {
+  function cookie(name) {
+    const match = document.cookie.match(new RegExp('(?:^|; )' + name + '=([^;]*)'));
+    return match ? decodeURIComponent(match[1]) : '';
+  }
+  // One pageLoadId per page load, shared by every event the page sends
+  window.searchspringPageLoadId = window.searchspringPageLoadId || crypto.randomUUID();
+  fetch('[[endpoints.beacon.url]]', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify([{
+      category: category,
+      type: type,
+      id: crypto.randomUUID(),
+      context: {
+        pageLoadId: window.searchspringPageLoadId,
+        userId: cookie('ssUserId'),
+        sessionId: cookie('ssSessionIdNamespace'),
+        website: { trackingCode: '[[siteId]]' }
+      },
+      event: event
+    }]),
+    keepalive: true
+  }).catch(error => console.error('Beacon error:', error));
+}
@@ -0,0 +1,20 @@
+// Blueprint has no order variables on the confirmation page, so cart lines are kept in
+// sessionStorage as they render and read back after checkout
+var ssCartSnapshot = {
+  key: 'searchspring-cart',
+  read: function () {
+    try { return JSON.parse(sessionStorage.getItem(this.key)) || {}; } catch (e) { return {}; }
+  },
+  add: function (item) {
+    var items = this.read();
+    items[item.sku] = item;
+    sessionStorage.setItem(this.key, JSON.stringify(items));
+  },
+  clear: function () {
+    sessionStorage.removeItem(this.key);
+  }
+};
+// Blueprint prices include the currency symbol
+function ssPrice(value) {
+  return parseFloat(String(value).replace(/[^0-9.]/g, '')) || 0;
+}
@@ -0,0 +1,12 @@
+import json
+import urllib.parse
+import urllib.request
+
+SITE_ID = "[[siteId]]"
+
+
+def searchspring_get(url, params, timeout=5):
+    """GET a Searchspring API endpoint and return the decoded JSON response."""
+    query = urllib.parse.urlencode(params, doseq=True)
+    with urllib.request.urlopen(f"{url}?{query}", timeout=timeout) as response:
+        return json.load(response)
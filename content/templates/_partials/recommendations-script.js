@@ -0,0 +1,16 @@
+// [[platform.label]] product page recommendations from the Searchspring Recommendations API
+const params = new URLSearchParams({
+  tags: 'similar-products',
+  products: [[platform.productSku]],
+  shopper: getUserId()
+});
+
+fetch('[[endpoints.recommendations.url]]?' + params)
+  .then(response => response.json())
+  .then(data => {
+    const results = data.length > 0 ? data[0].results : [];
+    document.getElementById('searchspring-recommendations').innerHTML = results.map(product =>
+      '<div class="product-card"><img src="' + product.mappings.core.imageUrl + '"><h4>' + product.mappings.core.name + '</h4><p>$' + product.mappings.core.price + '</p></div>'
+    ).join('');
+  })
+  .catch(error => console.error('Recommendations error:', error));
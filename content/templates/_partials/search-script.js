@@ -0,0 +1,27 @@
+// [[platform.label]] search form enhanced with the Searchspring Search API
+document.querySelector('#searchspring-search').addEventListener('submit', function(e) {
+  e.preventDefault();
+  const params = new URLSearchParams({
+    siteId: '[[siteId]]',
+    resultsFormat: 'json',
+    q: this.querySelector('input[name="q"]').value,
+    userId: getUserId(),
+    sessionId: getSessionId(),
+    pageLoadId: getPageLoadId(),
+    domain: window.location.href
+  });
+
+  fetch('[[endpoints.search.url]]?' + params)
+    .then(response => response.json())
+    .then(data => {
+      // Impression and click tracking read the pageLoadId and IntelliSuggest values from these attributes
+      const container = document.getElementById('searchspring-results');
+      container.dataset.ssPageLoadId = getPageLoadId();
+      container.innerHTML = data.results.map((product, index) =>
+        '<a class="product-card" href="' + product.url + '" data-ss-sku="' + product.sku + '" data-ss-position="' + (index + 1) + '"'
+          + ' data-ss-intellisuggest-data="' + (product.intellisuggestData || '') + '" data-ss-intellisuggest-signature="' + (product.intellisuggestSignature || '') + '">'
+          + product.name + '</a>'
+      ).join('');
+    })
+    .catch(error => console.error('Search error:', error));
+});
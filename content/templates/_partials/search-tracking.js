@@ -0,0 +1,103 @@
+// Search result impressions and clicks for the Beacon API. Each result needs data-ss-sku,
+// data-ss-position and the intellisuggestData/intellisuggestSignature values from the Search API
+// response; the element holding the results needs data-ss-page-load-id set to the pageLoadId
+// sent with that search request, so the events are attributed to it.
+window.ssSearchTracking = window.ssSearchTracking || (function () {
+  const BATCH_SIZE = 20;
+  const BATCH_DELAY_MS = 1000;
+  const queue = [];
+  const seen = new Set();
+  let timer = null;
+
+  function cookie(name) {
+    const match = document.cookie.match(new RegExp('(?:^|; )' + name + '=([^;]*)'));
+    return match ? decodeURIComponent(match[1]) : '';
+  }
+
+  function pageLoadIdFor(element) {
+    const holder = element.closest('[data-ss-page-load-id]');
+    if (holder) return holder.dataset.ssPageLoadId;
+    if (typeof getPageLoadId == 'function') return getPageLoadId();
+    console.warn('Searchspring: no data-ss-page-load-id on the search results - event not sent', element);
+    return '';
+  }
+
+  function event(type, element) {
+    const pageLoadId = pageLoadIdFor(element);
+    if (!pageLoadId) return null;
+    return {
+      category: 'searchspring.user-interactions',
+      type: type,
+      id: crypto.randomUUID(),
+      context: {
+        pageLoadId: pageLoadId,
+        userId: cookie('ssUserId'),
+        sessionId: cookie('ssSessionIdNamespace'),
+        website: { trackingCode: '[[siteId]]' }
+      },
+      event: {
+        sku: element.dataset.ssSku,
+        position: Number(element.dataset.ssPosition) || 0,
+        intellisuggestData: element.dataset.ssIntellisuggestData || '',
+        intellisuggestSignature: element.dataset.ssIntellisuggestSignature || ''
+      }
+    };
+  }
+
+  // keepalive lets the request outlive the page when the shopper navigates away
+  function send(events) {
+    if (events.length === 0) return;
+    fetch('[[endpoints.beacon.url]]', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(events),
+      keepalive: true
+    }).catch(error => console.error('Beacon error:', error));
+  }
+
+  function flush() {
+    clearTimeout(timer);
+    timer = null;
+    send(queue.splice(0, queue.length));
+  }
+
+  document.addEventListener('visibilitychange', function () {
+    if (document.visibilityState === 'hidden') flush();
+  });
+
+  return {
+    // Queue one impression per result per search once half of it has been on screen,
+    // sending them in batches. Call again after rendering new results.
+    observeImpressions: function (container) {
+      const observer = new IntersectionObserver(function (entries) {
+        entries.forEach(function (entry) {
+          if (!entry.isIntersecting) return;
+          observer.unobserve(entry.target);
+          const impression = event('impression', entry.target);
+          const key = impression && impression.context.pageLoadId + ':' + impression.event.sku;
+          if (!impression || seen.has(key)) return;
+          seen.add(key);
+          queue.push(impression);
+          if (queue.length >= BATCH_SIZE) flush();
+          else if (!timer) timer = setTimeout(flush, BATCH_DELAY_MS);
+        });
+      }, { threshold: 0.5 });
+      container.querySelectorAll('[data-ss-sku]').forEach(function (result) { observer.observe(result); });
+      return observer;
+    },
+
+    // Send a click event for any result clicked inside the container, with the impressions
+    // queued before it so the click never arrives ahead of its impression
+    trackClicks: function (container) {
+      container.addEventListener('click', function (e) {
+        const result = e.target.closest('[data-ss-sku]');
+        if (!result || !container.contains(result)) return;
+        const click = event('click', result);
+        if (!click) return;
+        click.event.href = result.getAttribute('href') || '';
+        queue.push(click);
+        flush();
+      });
+    }
+  };
+})();
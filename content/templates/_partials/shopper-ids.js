@@ -0,0 +1,9 @@
+// Shopper identifiers - the same values the Searchspring tracking script stores in cookies
+function getCookie(name) {
+  const match = document.cookie.match(new RegExp('(?:^|; )' + name + '=([^;]*)'));
+  return match ? decodeURIComponent(match[1]) : '';
+}
+function getUserId() { return getCookie('ssUserId'); }
+function getSessionId() { return getCookie('ssSessionIdNamespace'); }
+const pageLoadId = crypto.randomUUID();
+function getPageLoadId() { return pageLoadId; }
@@ -0,0 +1,25 @@
+// Autocomplete implementation
+const searchInput = document.getElementById('search');
+let debounceTimer;
+
+searchInput.addEventListener('input', function(e) {
+  clearTimeout(debounceTimer);
+  const query = e.target.value;
+
+  if (query.length < 2) return;
+
+  debounceTimer = setTimeout(() => {
+    const params = new URLSearchParams({
+      siteId: '[[siteId]]',
+      resultsFormat: 'json',
+      q: query,
+      userId: getUserId(),
+      sessionId: getSessionId()
+    });
+
+    fetch('[[endpoints.autocomplete.url]]?' + params)
+      .then(response => response.json())
+      .then(data => displayAutocomplete(data.results))
+      .catch(error => console.error('Autocomplete error:', error));
+  }, 300);
+});
@@ -0,0 +1,16 @@
+# Autocomplete API implementation (server-side, standard library only)
+[[> python-client]]
+
+
+def autocomplete(query, user_id, session_id):
+    """Product suggestions for a partial query (call after at least 2 characters)."""
+    if len(query) < 2:
+        return []
+    data = searchspring_get("[[endpoints.autocomplete.url]]", {
+        "siteId": SITE_ID,
+        "resultsFormat": "json",
+        "q": query,
+        "userId": user_id,
+        "sessionId": session_id,
+    })
+    return data["results"]
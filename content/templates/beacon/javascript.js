@@ -0,0 +1,35 @@
+// Beacon API for Personalized Recommendations tracking
+// NOTE: This is for recommendations beacon tracking, not basic product tracking
+// For basic IntelliSuggest tracking use ss.track.* methods instead
+
+function trackRecommendationEvent(events) {
+  // Events should be an array of event objects
+  fetch('[[endpoints.beacon.url]]', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(events)
+  })
+  .then(response => response.json())
+  .then(data => console.log('Recommendation events tracked:', data))
+  .catch(error => console.error('Beacon error:', error));
+}
+
+// Example: Track profile render event
+function trackProfileRender(tag, placement, seed = []) {
+  const events = [{
+    category: "searchspring.recommendations.user-interactions",
+    context: {
+      pageLoadId: getPageLoadId(),
+      userId: getUserId(),
+      sessionId: getSessionId(),
+      website: { trackingCode: '[[siteId]]' }
+    },
+    event: {
+      context: { type: "product-recommendation", tag: tag, placement: placement },
+      profile: { tag: tag, placement: placement, seed: seed }
+    },
+    id: crypto.randomUUID(),
+    type: "profile.render"
+  }];
+  trackRecommendationEvent(events);
+}
@@ -0,0 +1,41 @@
+// Bulk Index API implementation
+// NOTE: Use PUT for cart platforms (Shopify, BigCommerce), POST for custom feeds
+
+// For cart platforms (Shopify, BigCommerce, etc.) - triggers feed download
+function triggerBulkIndex(feedId, secretKey) {
+  const url = 'https://[[siteId]]:' + secretKey + '@[[endpoints.bulk-index.host]][[endpoints.bulk-index.path]]?feedId=' + feedId;
+
+  fetch(url, {
+    method: 'PUT'
+  })
+  .then(response => response.json())
+  .then(data => {
+    console.log('Bulk index triggered:', data);
+    if (data.success) {
+      console.log('Index successfully queued');
+      checkIndexStatus();
+    }
+  })
+  .catch(error => console.error('Bulk index error:', error));
+}
+
+// For custom feeds - uploads feed file
+function uploadCustomFeed(feedId, secretKey, feedFile) {
+  const formData = new FormData();
+  formData.append('feedFile', feedFile);
+
+  const url = 'https://[[siteId]]:' + secretKey + '@[[endpoints.bulk-index.host]][[endpoints.bulk-index.path]]?feedId=' + feedId;
+
+  fetch(url, {
+    method: 'POST',
+    body: formData
+  })
+  .then(response => response.json())
+  .then(data => {
+    console.log('Feed uploaded:', data);
+    if (data.success) {
+      console.log('Index successfully queued');
+    }
+  })
+  .catch(error => console.error('Feed upload error:', error));
+}
@@ -0,0 +1,40 @@
+<?php
+// PHP Bulk Index API implementation
+// For cart platforms - use PUT to trigger feed download
+function triggerBulkIndex($feedId, $secretKey) {
+    $url = 'https://[[siteId]]:' . $secretKey . '@[[endpoints.bulk-index.host]][[endpoints.bulk-index.path]]?feedId=' . $feedId;
+
+    $ch = curl_init($url);
+    curl_setopt($ch, CURLOPT_CUSTOMREQUEST, 'PUT');
+    curl_setopt($ch, CURLOPT_RETURNTRANSFER, true);
+    curl_setopt($ch, CURLOPT_SSL_VERIFYPEER, true);
+
+    $response = curl_exec($ch);
+    $httpCode = curl_getinfo($ch, CURLINFO_HTTP_CODE);
+    curl_close($ch);
+
+    if ($httpCode === 200) {
+        return json_decode($response, true);
+    } else {
+        throw new Exception('Bulk index failed with HTTP code: ' . $httpCode);
+    }
+}
+
+// For custom feeds - use POST with multipart/form-data
+function uploadCustomFeed($feedId, $secretKey, $feedFilePath) {
+    $url = 'https://[[siteId]]:' . $secretKey . '@[[endpoints.bulk-index.host]][[endpoints.bulk-index.path]]?feedId=' . $feedId;
+
+    $ch = curl_init($url);
+    curl_setopt($ch, CURLOPT_POST, true);
+    curl_setopt($ch, CURLOPT_POSTFIELDS, [
+        'feedFile' => new CURLFile($feedFilePath)
+    ]);
+    curl_setopt($ch, CURLOPT_RETURNTRANSFER, true);
+    curl_setopt($ch, CURLOPT_SSL_VERIFYPEER, true);
+
+    $response = curl_exec($ch);
+    curl_close($ch);
+
+    return json_decode($response, true);
+}
+?>
@@ -0,0 +1,38 @@
+# Bulk Index API implementation (server-side, standard library only)
+# NOTE: Use PUT for cart platforms (Shopify, BigCommerce), POST for custom feeds. Only one index per hour is allowed.
+import base64
+import json
+import os
+import urllib.request
+import uuid
+
+SITE_ID = "[[siteId]]"
+INDEX_URL = "https://[[endpoints.bulk-index.host]][[endpoints.bulk-index.path]]"
+
+
+def _send(method, feed_id, secret_key, body=None, content_type=None):
+    token = base64.b64encode(f"{SITE_ID}:{secret_key}".encode()).decode()
+    request = urllib.request.Request(f"{INDEX_URL}?feedId={feed_id}", data=body, method=method)
+    request.add_header("Authorization", f"Basic {token}")
+    if content_type:
+        request.add_header("Content-Type", content_type)
+    with urllib.request.urlopen(request, timeout=30) as response:
+        return json.load(response)
+
+
+def trigger_bulk_index(feed_id, secret_key):
+    """Ask Searchspring to download the feed from your cart platform again."""
+    return _send("PUT", feed_id, secret_key)
+
+
+def upload_custom_feed(feed_id, secret_key, feed_file_path):
+    """Upload a feed file as multipart/form-data field feedFile."""
+    boundary = uuid.uuid4().hex
+    with open(feed_file_path, "rb") as feed:
+        contents = feed.read()
+    body = (
+        f"--{boundary}\r\n"
+        f'Content-Disposition: form-data; name="feedFile"; filename="{os.path.basename(feed_file_path)}"\r\n'
+        "Content-Type: application/octet-stream\r\n\r\n"
+    ).encode() + contents + f"\r\n--{boundary}--\r\n".encode()
+    return _send("POST", feed_id, secret_key, body, f"multipart/form-data; boundary={boundary}")
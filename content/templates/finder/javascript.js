@@ -0,0 +1,17 @@
+// Finder API implementation
+function buildProductFinder() {
+  const params = new URLSearchParams({
+    siteId: '[[siteId]]',
+    resultsFormat: 'json',
+    userId: getUserId(),
+    sessionId: getSessionId()
+  });
+
+  fetch('[[endpoints.finder.url]]?resultsPerPage=0&' + params)
+    .then(response => response.json())
+    .then(data => {
+      console.log('Finder facets:', data.facets);
+      buildFinderInterface(data.facets);
+    })
+    .catch(error => console.error('Finder error:', error));
+}
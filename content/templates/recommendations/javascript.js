@@ -0,0 +1,18 @@
+// Recommendations API implementation
+function getRecommendations(tags, options = {}) {
+  const params = new URLSearchParams({
+    tags: tags.join(','),
+    shopper: getUserId(),
+    ...options
+  });
+
+  fetch('[[endpoints.recommendations.url]]?' + params)
+    .then(response => response.json())
+    .then(data => {
+      data.forEach(profile => {
+        console.log('Recommendations for', profile.profile.tag, profile.results);
+        displayRecommendations(profile.profile.tag, profile.results);
+      });
+    })
+    .catch(error => console.error('Recommendations error:', error));
+}
@@ -0,0 +1,12 @@
+# Recommendations API implementation (server-side, standard library only)
+[[> python-client]]
+
+
+def get_recommendations(tags, shopper_id="", product_skus=None):
+    """Recommended products for each profile tag, keyed by tag."""
+    data = searchspring_get("[[endpoints.recommendations.url]]", {
+        "tags": ",".join(tags),
+        "shopper": shopper_id,
+        "products": ",".join(product_skus or []),
+    })
+    return {profile["profile"]["tag"]: profile["results"] for profile in data}
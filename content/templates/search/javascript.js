@@ -0,0 +1,25 @@
+// Search API implementation
+function searchProducts(query, filters = {}) {
+  const params = new URLSearchParams({
+    siteId: '[[siteId]]',
+    resultsFormat: 'json',
+    q: query,
+    userId: getUserId(),
+    sessionId: getSessionId(),
+    pageLoadId: getPageLoadId(),
+    domain: window.location.origin
+  });
+
+  // Add filters
+  Object.entries(filters).forEach(([key, value]) => {
+    params.append(`filter.${key}`, value);
+  });
+
+  fetch('[[endpoints.search.url]]?' + params)
+    .then(response => response.json())
+    .then(data => {
+      console.log('Total results:', data.pagination.totalResults);
+      displaySearchResults(data.results);
+    })
+    .catch(error => console.error('Search error:', error));
+}
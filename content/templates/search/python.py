@@ -0,0 +1,23 @@
+# Search API implementation (server-side, standard library only)
+[[> python-client]]
+
+
+def search_products(query, user_id, session_id, page_load_id, domain, filters=None, page=1):
+    """Search results for a query. Pass the shopper's ssUserId and ssSessionIdNamespace cookie
+    values, one pageLoadId per page view, and the URL of the page showing the results."""
+    params = {
+        "siteId": SITE_ID,
+        "resultsFormat": "json",
+        "q": query,
+        "page": page,
+        "userId": user_id,
+        "sessionId": session_id,
+        "pageLoadId": page_load_id,
+        "domain": domain,
+    }
+    for field, values in (filters or {}).items():
+        params[f"filter.{field}"] = values
+
+    data = searchspring_get("[[endpoints.search.url]]", params)
+    print("Total results:", data["pagination"]["totalResults"])
+    return data["results"]
@@ -0,0 +1,20 @@
+// Suggest API implementation
+function getSuggestions(query) {
+  const params = new URLSearchParams({
+    siteId: '[[siteId]]',
+    resultsFormat: 'json',
+    q: query,
+    userId: getUserId(),
+    sessionId: getSessionId()
+  });
+
+  fetch('[[endpoints.suggest.url]]?' + params)
+    .then(response => response.json())
+    .then(data => {
+      if (data.suggested) {
+        console.log('Did you mean:', data.suggested);
+        displaySuggestion(data.suggested);
+      }
+    })
+    .catch(error => console.error('Suggest error:', error));
+}
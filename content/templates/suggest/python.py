@@ -0,0 +1,15 @@
+# Suggest API implementation (server-side, standard library only)
+[[> python-client]]
+
+
+def get_suggestions(query, user_id, session_id):
+    """The 'did you mean' suggestion for a query, or None."""
+    data = searchspring_get("[[endpoints.suggest.url]]", {
+        "siteId": SITE_ID,
+        "resultsFormat": "json",
+        "q": query,
+        "userId": user_id,
+        "sessionId": session_id,
+    })
+    suggested = data.get("suggested")
+    return suggested["text"] if suggested else None
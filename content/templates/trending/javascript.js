@@ -0,0 +1,15 @@
+// Trending API implementation
+function getTrendingSearches() {
+  const params = new URLSearchParams({
+    siteId: '[[siteId]]',
+    limit: '6'
+  });
+
+  fetch('[[endpoints.trending.url]]?' + params)
+    .then(response => response.json())
+    .then(data => {
+      console.log('Trending searches:', data.trending.queries);
+      displayTrendingSearches(data.trending.queries.map(term => term.searchQuery));
+    })
+    .catch(error => console.error('Trending error:', error));
+}
@@ -0,0 +1,8 @@
+# Trending API implementation (server-side, standard library only)
+[[> python-client]]
+
+
+def get_trending_searches(limit=6):
+    """The most popular search terms, most popular first."""
+    data = searchspring_get("[[endpoints.trending.url]]", {"siteId": SITE_ID, "limit": limit})
+    return [term["searchQuery"] for term in data["trending"]["queries"]]
@@ -0,0 +1,13 @@
+{* Add to the shopping cart template (CommerceV3) *}
+<script>
+if (typeof ss != 'undefined') {
+  {foreach from=$cart.items item=item}
+  ss.track.cart.add({
+    sku: '{$item.SKU|escape:'javascript'}',
+    name: '{$item.name|escape:'javascript'}',
+    price: {$item.price},
+    quantity: {$item.quantity}
+  });
+  {/foreach}
+}
+</script>
@@ -0,0 +1,11 @@
+{* Search result impressions - add to the search results template, after the element with id searchspring-results *}
+{* Results rendered in the browser: call window.ssSearchTracking.observeImpressions again after each render *}
+<script>
+{literal}
+[[> search-tracking]]
+(function () {
+  const results = document.getElementById('searchspring-results');
+  if (results) window.ssSearchTracking.observeImpressions(results);
+})();
+{/literal}
+</script>
@@ -0,0 +1,10 @@
+{* Add to the product detail template (CommerceV3) *}
+<script>
+if (typeof ss != 'undefined') {
+  ss.track.product.view({
+    sku: '{$product.SKU|escape:'javascript'}',
+    name: '{$product.name|escape:'javascript'}',
+    price: {$product.price}
+  });
+}
+</script>
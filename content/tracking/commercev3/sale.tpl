@@ -0,0 +1,13 @@
+{* Add to the receipt template (CommerceV3) *}
+<script>
+if (typeof ss != 'undefined') {
+  {foreach from=$order.items item=item}
+  ss.track.purchase.buy({
+    sku: '{$item.SKU|escape:'javascript'}',
+    name: '{$item.name|escape:'javascript'}',
+    price: {$item.price},
+    quantity: {$item.quantity}
+  });
+  {/foreach}
+}
+</script>
@@ -0,0 +1,11 @@
+{* Search result clicks - add to the search results template, after the element with id searchspring-results *}
+{* Clicks are tracked for results rendered into the container at any time *}
+<script>
+{literal}
+[[> search-tracking]]
+(function () {
+  const results = document.getElementById('searchspring-results');
+  if (results) window.ssSearchTracking.trackClicks(results);
+})();
+{/literal}
+</script>
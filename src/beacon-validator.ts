@@ -0,0 +1,257 @@
+import { z } from "zod";
+import { BeaconValidationOutputSchema } from "./schemas.js";
+
+export type BeaconValidationOutput = z.infer<typeof BeaconValidationOutputSchema>;
+
+type Finding = BeaconValidationOutput["findings"][number];
+
+type FieldError = BeaconValidationOutput["events"][number]["errors"][number];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+const RECOMMENDATIONS_CATEGORY = "searchspring.recommendations.user-interactions";
+
+const SEARCH_CATEGORY = "searchspring.user-interactions";
+
+// Profile-level events describe a whole recommendation block; product-level events one product in it
+const PROFILE_EVENT_TYPES = ["profile.render", "profile.impression", "profile.click"] as const;
+const PRODUCT_EVENT_TYPES = ["profile.product.render", "profile.product.impression", "profile.product.click"] as const;
+
+// Search result events, attributed to a search through the pageLoadId of its request
+const SEARCH_EVENT_TYPES = ["impression", "click"] as const;
+
+// Shop events and their categories, as sent by the Shopify Web Pixel extension
+export const SHOP_EVENT_CATEGORIES = {
+  "product.view": "searchspring.page.view",
+  "cart.view": "searchspring.shop.cart",
+  "order.transaction": "searchspring.shop.transaction",
+} as const;
+
+const SHOP_EVENT_TYPES = Object.keys(SHOP_EVENT_CATEGORIES) as (keyof typeof SHOP_EVENT_CATEGORIES)[];
+
+const Uuid = z.string().regex(UUID_PATTERN, "must be a UUID (e.g. from crypto.randomUUID())");
+
+const NonEmpty = z.string().trim().min(1, "must not be empty");
+
+const EventContextSchema = z.object({
+  type: z.literal("product-recommendation"),
+  tag: NonEmpty.describe("Profile tag the recommendations came from"),
+  placement: NonEmpty,
+});
+
+const BeaconContextSchema = z.object({
+  pageLoadId: Uuid.describe("Same pageLoadId as the API request that produced the content"),
+  userId: NonEmpty.describe("ssUserId cookie value"),
+  sessionId: NonEmpty.describe("ssSessionIdNamespace cookie value"),
+  website: z.object({
+    trackingCode: z.string().regex(/^[a-z0-9]+$/i, "must be your alphanumeric site ID (e.g. abc123)"),
+  }),
+});
+
+const BaseEventSchema = z.object({
+  category: z.literal(RECOMMENDATIONS_CATEGORY),
+  context: BeaconContextSchema,
+  id: Uuid,
+});
+
+const ProfileEventSchema = BaseEventSchema.extend({
+  type: z.enum(PROFILE_EVENT_TYPES),
+  event: z.object({
+    context: EventContextSchema,
+    profile: z.object({
+      tag: NonEmpty,
+      placement: NonEmpty,
+      seed: z.array(z.string()).describe("SKUs the profile was seeded with"),
+    }),
+  }),
+});
+
+const ProductEventSchema = BaseEventSchema.extend({
+  type: z.enum(PRODUCT_EVENT_TYPES),
+  pid: Uuid.describe("id of the profile event this product belongs to"),
+  event: z.object({
+    context: EventContextSchema,
+    product: z.object({
+      id: NonEmpty.describe("Product ID from the Recommendations API response"),
+      seed: z.array(z.string()).optional(),
+      mappings: z.object({ core: z.record(z.unknown()) }).optional(),
+    }),
+  }),
+});
+
+const SearchEventSchema = z.object({
+  category: z.literal(SEARCH_CATEGORY),
+  context: BeaconContextSchema,
+  id: Uuid,
+  type: z.enum(SEARCH_EVENT_TYPES),
+  event: z.object({
+    sku: NonEmpty.describe("SKU of the search result"),
+    position: z.number().int().positive().describe("1-based position of the result on the page"),
+    intellisuggestData: NonEmpty.describe("intellisuggestData from the Search API result"),
+    intellisuggestSignature: NonEmpty.describe("intellisuggestSignature from the Search API result"),
+    href: z.string().optional(),
+  }),
+});
+
+const ShopItemSchema = z.object({
+  sku: NonEmpty.describe("SKU matching the SKU core field in your feed"),
+  childSku: z.string().optional(),
+  price: z.number().nonnegative(),
+  qty: z.number().int().positive(),
+});
+
+const ShopEventSchema = z.object({ context: BeaconContextSchema, id: Uuid });
+
+const ProductViewEventSchema = ShopEventSchema.extend({
+  category: z.literal(SHOP_EVENT_CATEGORIES["product.view"]),
+  type: z.literal("product.view"),
+  event: z.object({ sku: NonEmpty, childSku: z.string().optional() }),
+});
+
+const CartViewEventSchema = ShopEventSchema.extend({
+  category: z.literal(SHOP_EVENT_CATEGORIES["cart.view"]),
+  type: z.literal("cart.view"),
+  event: z.object({ items: z.array(ShopItemSchema).min(1, "must list at least one item") }),
+});
+
+const OrderTransactionEventSchema = ShopEventSchema.extend({
+  category: z.literal(SHOP_EVENT_CATEGORIES["order.transaction"]),
+  type: z.literal("order.transaction"),
+  event: z.object({
+    order: z.object({
+      id: NonEmpty.describe("Order ID"),
+      total: z.number().nonnegative().optional(),
+      city: z.string().optional(),
+      state: z.string().optional(),
+      country: z.string().optional(),
+    }),
+    items: z.array(ShopItemSchema).min(1, "must list at least one item"),
+  }),
+});
+
+const BeaconEventSchema = z.discriminatedUnion("type", [
+  ProfileEventSchema,
+  ProductEventSchema,
+  SearchEventSchema,
+  ProductViewEventSchema,
+  CartViewEventSchema,
+  OrderTransactionEventSchema,
+]);
+
+const KNOWN_FIELDS = new Set(["category", "context", "event", "id", "pid", "type"]);
+
+// Fields from older payload shapes and where their values belong now
+const MOVED_FIELDS: Record<string, string> = {
+  userid: "context.userId",
+  userId: "context.userId",
+  sessionid: "context.sessionId",
+  sessionId: "context.sessionId",
+  pageLoadId: "context.pageLoadId",
+  siteId: "context.website.trackingCode",
+  data: "event",
+};
+
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((result, key) => typeof key === "number" ? `${result}[${key}]` : result ? `${result}.${key}` : key, "");
+}
+
+function toFieldErrors(error: z.ZodError): FieldError[] {
+  return error.errors.map(issue => {
+    if (issue.code === "invalid_union_discriminator") {
+      const types = [...PROFILE_EVENT_TYPES, ...PRODUCT_EVENT_TYPES, ...SEARCH_EVENT_TYPES, ...SHOP_EVENT_TYPES].join(", ");
+      return { path: "type", message: `must be one of ${types}` };
+    }
+    if (issue.code === "invalid_literal") {
+      return { path: formatPath(issue.path), message: `must be ${JSON.stringify(issue.expected)}` };
+    }
+    if (issue.code === "invalid_type" && issue.received === "undefined") {
+      return { path: formatPath(issue.path), message: "is required" };
+    }
+    return { path: formatPath(issue.path), message: issue.message };
+  });
+}
+
+// Parse the payload: a JSON array of events, a single event, or their JSON text
+function readEvents(payload: unknown): { events: unknown[]; findings: Finding[] } {
+  const findings: Finding[] = [];
+  let value = payload;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      findings.push({ ruleId: "beacon/json", severity: "error", message: `Payload is not valid JSON: ${message}` });
+      return { events: [], findings };
+    }
+  }
+  if (!Array.isArray(value)) {
+    findings.push({ ruleId: "beacon/array-body", severity: "error", message: "The request body must be a JSON array of events - wrap a single event in [ ]" });
+    return { events: [value], findings };
+  }
+  if (value.length === 0) {
+    findings.push({ ruleId: "beacon/array-body", severity: "error", message: "The request body is an empty array - send at least one event" });
+  }
+  return { events: value, findings };
+}
+
+// Validate beacon event payloads field by field against the Beacon API event schema
+export function validateBeaconEvents(payload: unknown, siteId?: string): BeaconValidationOutput {
+  const { events, findings } = readEvents(payload);
+  const ids = new Set<string>();
+
+  const results = events.map((event, index) => {
+    const result = BeaconEventSchema.safeParse(event);
+    const record = typeof event === "object" && event !== null ? event as Record<string, unknown> : {};
+    const type = typeof record.type === "string" ? record.type : undefined;
+    const errors = result.success ? [] : toFieldErrors(result.error);
+
+    for (const field of Object.keys(record).filter(key => !KNOWN_FIELDS.has(key))) {
+      const moved = MOVED_FIELDS[field];
+      findings.push({
+        ruleId: "beacon/unknown-field",
+        severity: "warning",
+        message: `Event ${index}: '${field}' is not a beacon event field${moved ? ` - send it as ${moved}` : " and is ignored"}`,
+      });
+    }
+
+    if (type && ([...PROFILE_EVENT_TYPES, ...SEARCH_EVENT_TYPES, ...SHOP_EVENT_TYPES] as readonly string[]).includes(type) && "pid" in record) {
+      findings.push({ ruleId: "beacon/pid", severity: "warning", message: `Event ${index}: pid is only used on profile.product.* events` });
+    }
+
+    const id = typeof record.id === "string" ? record.id : undefined;
+    if (id && ids.has(id)) {
+      errors.push({ path: "id", message: `duplicates the id of an earlier event - every event needs a new UUID` });
+    }
+    if (id) ids.add(id);
+
+    const trackingCode = result.success ? result.data.context.website.trackingCode : undefined;
+    if (siteId && trackingCode && trackingCode !== siteId) {
+      findings.push({
+        ruleId: "beacon/tracking-code",
+        severity: "warning",
+        message: `Event ${index}: context.website.trackingCode '${trackingCode}' does not match the configured site ID '${siteId}'`,
+      });
+    }
+
+    return { index, ...(type ? { type } : {}), valid: errors.length === 0, errors };
+  });
+
+  // Product events reference their profile event; a pid with no parent in the batch is usually a copy/paste slip
+  results.forEach(({ index, valid }) => {
+    const record = events[index] as Record<string, unknown>;
+    if (valid && typeof record.pid === "string" && !ids.has(record.pid)) {
+      findings.push({
+        ruleId: "beacon/pid",
+        severity: "suggestion",
+        message: `Event ${index}: pid does not match any event in this payload - send the parent profile event in the same batch`,
+      });
+    }
+  });
+
+  return {
+    valid: results.length > 0 && results.every(result => result.valid) && !findings.some(finding => finding.severity === "error"),
+    eventCount: results.length,
+    events: results,
+    findings,
+  };
+}
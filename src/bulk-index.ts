@@ -0,0 +1,279 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { basename, dirname, join, resolve } from "node:path";
+import { z } from "zod";
+import { API_ENDPOINTS } from "./endpoints.js";
+import { requestUrl } from "./request-builder.js";
+import { BulkIndexOutputSchema, BulkIndexParamsSchema } from "./schemas.js";
+
+export type BulkIndexParams = z.infer<typeof BulkIndexParamsSchema>;
+
+export type BulkIndexOutput = z.infer<typeof BulkIndexOutputSchema>;
+
+export interface BulkIndexOptions {
+  siteId: string;
+  secretKey: string;
+  timeout: number;
+  baseUrl?: string | undefined;
+  stateFile?: string | undefined;
+  // Delay between status polls while waiting for a job
+  pollIntervalMs?: number;
+}
+
+export const DEFAULT_INDEX_STATE_FILE = join(homedir(), ".searchspring-mcp", "bulk-index.json");
+
+// Searchspring allows one index per feed per hour
+export const BULK_INDEX_INTERVAL_MS = 60 * 60 * 1000;
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+// Feeds with a trigger in flight in this process, so concurrent sessions cannot both pass the hourly check
+const triggering = new Set<string>();
+
+// Job states that mean an index is still in progress
+const RUNNING_STATES = ["queued", "pending", "running", "processing", "indexing"];
+
+const IndexStateSchema = z.record(z.object({
+  lastTriggeredAt: z.string(),
+  method: z.enum(["PUT", "POST"]),
+}));
+
+type IndexState = z.infer<typeof IndexStateSchema>;
+
+const JobStatusSchema = z.object({
+  status: z.string(),
+  message: z.string().optional(),
+  startedAt: z.string().optional(),
+  completedAt: z.string().optional(),
+}).passthrough();
+
+type Job = NonNullable<BulkIndexOutput["job"]>;
+
+function loadIndexState(file: string): IndexState {
+  let text: string;
+  try {
+    text = readFileSync(file, "utf8");
+  } catch {
+    // No triggers recorded yet
+    return {};
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    data = undefined;
+  }
+  const result = IndexStateSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid bulk index state file ${file} - delete it to reset the recorded trigger times`);
+  }
+  return result.data;
+}
+
+// State file entries are per site and feed
+function indexKey(siteId: string, feedId: string): string {
+  return `${siteId}/${feedId}`;
+}
+
+function saveIndexState(file: string, state: IndexState) {
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, `${JSON.stringify(state, null, 2)}\n`, { mode: 0o600 });
+}
+
+// Replace the secret key (and the Basic auth token carrying it) wherever it appears
+export function redactSecret(text: string, siteId: string, secretKey: string): string {
+  const token = Buffer.from(`${siteId}:${secretKey}`).toString("base64");
+  return text.split(token).join("****").split(secretKey).join("****");
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolveSleep => setTimeout(resolveSleep, ms));
+}
+
+class BulkIndexClient {
+  readonly requests: BulkIndexOutput["requests"] = [];
+  private options: BulkIndexOptions;
+  private authorization: string;
+
+  constructor(options: BulkIndexOptions) {
+    this.options = options;
+    this.authorization = `Basic ${Buffer.from(`${options.siteId}:${options.secretKey}`).toString("base64")}`;
+  }
+
+  // Credentials go in an Authorization header - the equivalent of siteId:secretKey@ in the URL
+  async send(method: "GET" | "PUT" | "POST", path: string, params: Record<string, string>, body?: FormData): Promise<{ status: number; data: unknown }> {
+    const url = new URL(requestUrl(`https://${API_ENDPOINTS["bulk-index"].host}${path}`, this.options.baseUrl));
+    Object.entries(params).forEach(([name, value]) => url.searchParams.set(name, value));
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: { Authorization: this.authorization },
+        signal: AbortSignal.timeout(this.options.timeout),
+        ...(body ? { body } : {}),
+      });
+    } catch (error) {
+      const reason = error instanceof Error && error.name === "TimeoutError"
+        ? `timed out after ${this.options.timeout}ms`
+        : error instanceof Error ? error.message : String(error);
+      throw new Error(`Bulk Indexing API ${method} ${url} failed: ${reason}`);
+    }
+
+    this.requests.push({ method, url: url.toString(), status: response.status });
+    const text = await response.text();
+    let data: unknown = text;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // Plain-text error bodies are reported as-is
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`Bulk Indexing API rejected the credentials (HTTP ${response.status}) - check SEARCHSPRING_SITE_ID and SEARCHSPRING_SECRET_KEY`);
+    }
+    return { status: response.status, data };
+  }
+
+  async status(feedId: string): Promise<Job> {
+    const { status, data } = await this.send("GET", API_ENDPOINTS["bulk-index"].statusPath ?? "", { feedId });
+    const job = JobStatusSchema.safeParse(data);
+    if (status >= 400 || !job.success) {
+      return { status: "unknown", message: `Status endpoint returned HTTP ${status}${typeof data === "string" && data ? `: ${data.slice(0, 200)}` : ""}` };
+    }
+    const { status: state, message, startedAt, completedAt } = job.data;
+    return {
+      status: state,
+      ...(message !== undefined ? { message } : {}),
+      ...(startedAt !== undefined ? { startedAt } : {}),
+      ...(completedAt !== undefined ? { completedAt } : {}),
+    };
+  }
+}
+
+function describeResponse(data: unknown): string {
+  if (typeof data === "object" && data !== null && "message" in data && typeof data.message === "string") {
+    return data.message;
+  }
+  return typeof data === "string" ? data.slice(0, 200) : JSON.stringify(data).slice(0, 200);
+}
+
+async function run(params: BulkIndexParams, options: BulkIndexOptions): Promise<BulkIndexOutput> {
+  const { action, feedId, method, waitSeconds } = params;
+  const stateFile = options.stateFile ?? DEFAULT_INDEX_STATE_FILE;
+  const key = indexKey(options.siteId, feedId);
+  const client = new BulkIndexClient(options);
+
+  const previous = loadIndexState(stateFile)[key];
+  const nextAllowed = previous ? new Date(Date.parse(previous.lastTriggeredAt) + BULK_INDEX_INTERVAL_MS) : undefined;
+  const timing = {
+    ...(previous ? { lastTriggeredAt: previous.lastTriggeredAt } : {}),
+    ...(nextAllowed ? { nextAllowedAt: nextAllowed.toISOString() } : {}),
+  };
+
+  if (action === "status") {
+    const job = await client.status(feedId);
+    return { action, feedId, triggered: false, job, ...timing, requests: client.requests };
+  }
+
+  const result = { action, feedId, method, ...timing };
+
+  if (nextAllowed && nextAllowed.getTime() > Date.now()) {
+    const minutes = Math.ceil((nextAllowed.getTime() - Date.now()) / 60000);
+    return {
+      ...result,
+      triggered: false,
+      refused: `Feed ${feedId} was last indexed at ${previous?.lastTriggeredAt} - bulk indexing is limited to once per hour, try again after ${nextAllowed.toISOString()} (in ${minutes} minute${minutes === 1 ? "" : "s"})`,
+      requests: client.requests,
+    };
+  }
+
+  // Starting a second job while one is running wastes the slot
+  const current = await client.status(feedId);
+  if (RUNNING_STATES.includes(current.status.toLowerCase())) {
+    return {
+      ...result,
+      triggered: false,
+      refused: `An index job for feed ${feedId} is already ${current.status} - wait for it to finish`,
+      job: current,
+      requests: client.requests,
+    };
+  }
+
+  let body: FormData | undefined;
+  if (method === "POST") {
+    if (!params.feedFile) {
+      throw new Error("POST uploads a feed file - pass feedFile, or use PUT to re-download the feed from your cart platform");
+    }
+    const path = resolve(params.feedFile);
+    let contents: Buffer;
+    try {
+      contents = readFileSync(path);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot read feed file ${params.feedFile}: ${message}`);
+    }
+    body = new FormData();
+    body.append("feedFile", new Blob([new Uint8Array(contents)]), basename(path));
+  }
+
+  // The trigger is recorded before the request, so another server sharing the state file sees it
+  // too, and put back if the API does not start a job
+  const triggeredAt = new Date();
+  const recorded = loadIndexState(stateFile);
+  saveIndexState(stateFile, { ...recorded, [key]: { lastTriggeredAt: triggeredAt.toISOString(), method } });
+  const unrecord = () => {
+    const restored = loadIndexState(stateFile);
+    if (previous) restored[key] = previous;
+    else delete restored[key];
+    saveIndexState(stateFile, restored);
+  };
+
+  const query = { feedId, ...(params.requestedBy ? { requestedBy: params.requestedBy } : {}) };
+  let triggered: { status: number; data: unknown };
+  try {
+    triggered = await client.send(method, API_ENDPOINTS["bulk-index"].path, query, body);
+  } catch (error) {
+    unrecord();
+    throw error;
+  }
+  if (triggered.status >= 400) {
+    unrecord();
+    throw new Error(`Bulk Indexing API refused the ${method} request (HTTP ${triggered.status}): ${describeResponse(triggered.data)}`);
+  }
+
+  let job = await client.status(feedId);
+  const deadline = Date.now() + waitSeconds * 1000;
+  while (RUNNING_STATES.includes(job.status.toLowerCase()) && Date.now() < deadline) {
+    await sleep(Math.min(options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS, Math.max(0, deadline - Date.now())));
+    job = await client.status(feedId);
+  }
+
+  return {
+    ...result,
+    triggered: true,
+    job,
+    lastTriggeredAt: triggeredAt.toISOString(),
+    nextAllowedAt: new Date(triggeredAt.getTime() + BULK_INDEX_INTERVAL_MS).toISOString(),
+    requests: client.requests,
+  };
+}
+
+// Trigger a bulk index (or report its status), refusing triggers inside the hourly window
+// recorded in the state file. The secret key is redacted from everything returned or thrown.
+export async function runBulkIndex(params: BulkIndexParams, options: BulkIndexOptions): Promise<BulkIndexOutput> {
+  const redact = (text: string) => redactSecret(text, options.siteId, options.secretKey);
+  const key = indexKey(options.siteId, params.feedId);
+  if (params.action === "trigger" && triggering.has(key)) {
+    const { action, feedId, method } = params;
+    return { action, feedId, method, triggered: false, refused: `Feed ${feedId} is already being triggered by another request - check its status instead`, requests: [] };
+  }
+  if (params.action === "trigger") triggering.add(key);
+  try {
+    const output = await run(params, options);
+    return JSON.parse(redact(JSON.stringify(output))) as BulkIndexOutput;
+  } catch (error) {
+    throw new Error(redact(error instanceof Error ? error.message : String(error)));
+  } finally {
+    if (params.action === "trigger") triggering.delete(key);
+  }
+}
@@ -0,0 +1,592 @@
+import ts from "typescript";
+import { PlatformContext } from "./template-engine.js";
+
+// 1-based position in the submitted code
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface CallSite extends SourcePosition {
+  // Dotted name of the function called, e.g. "ss.track.cart.add", "fetch" or "fetch().catch"
+  callee: string;
+  // Property names of each argument that is (or names) an object literal; undefined for other arguments
+  args: (string[] | undefined)[];
+  // Inside an if, && or ?: that checks typeof ss first
+  guarded: boolean;
+  // Inside a function, so it runs when that is called rather than where it appears
+  inFunction: boolean;
+}
+
+export interface StringSite extends SourcePosition {
+  // String, template literal or concatenation, with non-literal parts as ${name} (${} when not a plain name)
+  value: string;
+}
+
+export interface NameSite extends SourcePosition {
+  name: string;
+  // Literal value assigned to the name, when there is one
+  value?: string | undefined;
+}
+
+export interface ScriptTag extends SourcePosition {
+  src: string;
+  // Attribute names, lowercased
+  attributes: string[];
+}
+
+export interface CommentSite extends SourcePosition {
+  // The whole comment, delimiters included
+  text: string;
+}
+
+export type TemplateDialect = Extract<PlatformContext["dialect"], "liquid" | "handlebars" | "phtml" | "mivascript" | "smarty">;
+
+export interface TemplateOutput extends SourcePosition {
+  // The whole tag, e.g. {{ product.title | json }}
+  tag: string;
+  dialect: TemplateDialect;
+  // Printed inside a JavaScript string literal, as a bare JavaScript value, or into the HTML
+  context: "string" | "script" | "html";
+  // The object property the printed value is assigned to, e.g. sku
+  property?: string | undefined;
+}
+
+export interface CodeAnalysis {
+  // JavaScript (including script elements in HTML and theme templates) is parsed; PHP and
+  // Python are scanned with their comments removed
+  language: "javascript" | "php" | "python";
+  // <script src> elements outside HTML and template comments
+  scriptTags: ScriptTag[];
+  calls: CallSite[];
+  strings: StringSite[];
+  // Object literal keys (PHP and Python: array and dict keys, and keyword arguments)
+  properties: NameSite[];
+  // Query string names, URLSearchParams and request option keys, and searchParams.set/append names
+  requestParams: NameSite[];
+  // Names of declared functions
+  functions: NameSite[];
+  identifiers: NameSite[];
+  // Dotted names read in the JavaScript, e.g. product.sku
+  references: NameSite[];
+  // The theme template language, when the code is a template
+  templateDialect?: TemplateDialect | undefined;
+  // Template tags that print a value
+  templateOutputs: TemplateOutput[];
+  // JavaScript, HTML, template, PHP and Python comments
+  comments: CommentSite[];
+  // A try statement, .catch() or .then() with a rejection handler
+  errorHandling: boolean;
+}
+
+const HTML_COMMENT_PATTERN = /<!--[\s\S]*?-->/g;
+
+// Comments in each template language, removed before anything else is read
+const TEMPLATE_COMMENT_PATTERNS = [
+  /\{%-?\s*comment\s*-?%\}[\s\S]*?\{%-?\s*endcomment\s*-?%\}/g,
+  /\{\{!--[\s\S]*?--\}\}/g,
+  /\{\{![\s\S]*?\}\}/g,
+  /\{\*[\s\S]*?\*\}/g,
+  /<mvt:comment>[\s\S]*?<\/mvt:comment>/gi,
+];
+
+// Template tags that only control flow become whitespace, so the JavaScript around them still parses
+const STATEMENT_TAG_PATTERNS = [
+  /\{%[\s\S]*?%\}/g,
+  /\{\{[#/^][\s\S]*?\}\}/g,
+  /\{\{else\}\}/g,
+  /<\?php(?!\s+(?:echo|print)\b)[\s\S]*?(?:\?>|$)/g,
+  /<\/?mvt:[^>]*>/gi,
+  /(?<!\$)\{\/?(?:foreach|if|else|elseif|literal|section|assign|include|capture)\b[^}\n]*\}/g,
+];
+
+// Template tags that print a value become an identifier of the same length. {{ }} is Liquid or
+// Handlebars depending on the template; Blueprint %%GLOBAL%% variables have no escaping to check.
+const EXPRESSION_TAG_PATTERNS: [RegExp, TemplateDialect | "mustache" | undefined][] = [
+  [/\{\{\{[\s\S]*?\}\}\}/g, "mustache"],
+  [/\{\{[\s\S]*?\}\}/g, "mustache"],
+  [/<\?(?:=|php\s+(?:echo|print)\b)[\s\S]*?\?>/g, "phtml"],
+  [/&mvt[a-z]?:[\w:]+;/g, "mivascript"],
+  [/%%[A-Z0-9_]+%%/g, undefined],
+  [/(?<!\$)\{\$[^}\n]*\}/g, "smarty"],
+];
+
+// Signs of each template language, checked in order when the platform is not given
+const DIALECT_PATTERNS: [RegExp, TemplateDialect][] = [
+  [/<\?(?:php|=)/, "phtml"],
+  [/<\/?mvt:|&mvt[a-z]?:/, "mivascript"],
+  [/\{%|\{\{[^}]*\|/, "liquid"],
+  [/\{\{[#/>{]|\{\{else\}\}/, "handlebars"],
+  [/(?<!\$)\{\$/, "smarty"],
+  [/\{\{/, "liquid"],
+];
+
+const SCRIPT_ELEMENT_PATTERN = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+
+const SCRIPT_SRC_PATTERN = /\bsrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i;
+
+const SCRIPT_TYPE_PATTERN = /\btype\s*=\s*["']?([^"'\s>]+)/i;
+
+const ATTRIBUTE_NAME_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?/g;
+
+const JAVASCRIPT_TYPES = ["text/javascript", "application/javascript", "module"];
+
+const PYTHON_PATTERN = /^(?:from\s+[\w.]+\s+import\s|import\s+[\w.]+\s*$|def\s+\w+\s*\(.*\)\s*:)/m;
+
+const QUERY_PARAM_PATTERN = /(?:^|[?&])([\w.[\]-]+)=([^&#'"\s]*)/g;
+
+// Names the fallback scanner finds before "(" that are statements, not calls
+const SERVER_KEYWORDS = ["if", "elif", "for", "foreach", "while", "switch", "catch", "function", "def", "return", "array", "isset", "empty", "list", "print", "echo", "and", "or", "not", "in"];
+
+// Keys of these options (and URLSearchParams arguments) are request parameters
+const REQUEST_OPTION_KEYS = ["params", "data", "query", "qs", "searchParams"];
+
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, " ");
+}
+
+function maskAll(text: string, patterns: RegExp[], replace: (match: string, start: number) => string): string {
+  return patterns.reduce((masked, pattern) => masked.replace(pattern, replace), text);
+}
+
+interface TagMatch {
+  start: number;
+  tag: string;
+  dialect: TemplateDialect | "mustache";
+}
+
+// Template tags replaced without moving anything, so offsets in the result are offsets in text.
+// Tags that print a value are added to outputs when it is given.
+export function maskTemplateTags(text: string, outputs?: TagMatch[]): string {
+  const statements = maskAll(text, STATEMENT_TAG_PATTERNS, blank);
+  return EXPRESSION_TAG_PATTERNS.reduce((masked, [pattern, dialect]) => masked.replace(pattern, (tag: string, start: number) => {
+    if (dialect) outputs?.push({ start, tag, dialect });
+    return `_${blank(tag.slice(1))}`;
+  }), statements);
+}
+
+function positionFinder(code: string): (offset: number) => SourcePosition {
+  const lineStarts = [0];
+  for (let index = code.indexOf("\n"); index !== -1; index = code.indexOf("\n", index + 1)) {
+    lineStarts.push(index + 1);
+  }
+  return offset => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if ((lineStarts[middle] ?? 0) <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return { line: low + 1, column: offset - (lineStarts[low] ?? 0) + 1 };
+  };
+}
+
+function emptyAnalysis(language: CodeAnalysis["language"]): CodeAnalysis {
+  return {
+    language,
+    scriptTags: [],
+    calls: [],
+    strings: [],
+    properties: [],
+    requestParams: [],
+    functions: [],
+    identifiers: [],
+    references: [],
+    templateOutputs: [],
+    comments: [],
+    errorHandling: false,
+  };
+}
+
+function addQueryParams(analysis: CodeAnalysis, site: StringSite) {
+  for (const [, name = "", value] of site.value.matchAll(QUERY_PARAM_PATTERN)) {
+    analysis.requestParams.push({ name, value, line: site.line, column: site.column });
+  }
+}
+
+// HTML and theme templates: the JavaScript in inline script elements (from the masked template),
+// everything else blanked, and the [start, end) range of each script
+function extractScripts(code: string, masked: string, analysis: CodeAnalysis, positionAt: (offset: number) => SourcePosition): { javascript: string; ranges: [number, number][] } {
+  let javascript = blank(masked);
+  const ranges: [number, number][] = [];
+  for (const element of masked.matchAll(SCRIPT_ELEMENT_PATTERN)) {
+    const [tag, attributes = "", body = ""] = element;
+    const start = element.index ?? 0;
+    // Attributes are read from the original code, where template tags in them are intact
+    const originalAttributes = code.slice(start + "<script".length, start + "<script".length + attributes.length);
+    const src = SCRIPT_SRC_PATTERN.exec(originalAttributes);
+    if (src) {
+      analysis.scriptTags.push({
+        src: src[1] ?? src[2] ?? src[3] ?? "",
+        attributes: [...originalAttributes.matchAll(ATTRIBUTE_NAME_PATTERN)].map(([, name = ""]) => name.toLowerCase()),
+        ...positionAt(start),
+      });
+      continue;
+    }
+    const type = SCRIPT_TYPE_PATTERN.exec(attributes)?.[1]?.toLowerCase();
+    if (type && !JAVASCRIPT_TYPES.includes(type)) continue;
+    const bodyStart = start + tag.indexOf(">") + 1;
+    const bodyEnd = bodyStart + body.length;
+    // The closing tag ends the statement, as it does in the browser
+    javascript = `${javascript.slice(0, bodyStart)}${body};${javascript.slice(bodyEnd + 1)}`;
+    ranges.push([bodyStart, bodyEnd]);
+  }
+  return { javascript, ranges };
+}
+
+function detectDialect(code: string): TemplateDialect | undefined {
+  return DIALECT_PATTERNS.find(([pattern]) => pattern.test(code))?.[1];
+}
+
+function calleeName(expression: ts.Expression): string | undefined {
+  if (ts.isIdentifier(expression)) return expression.text;
+  if (expression.kind === ts.SyntaxKind.ThisKeyword) return "this";
+  if (ts.isParenthesizedExpression(expression) || ts.isNonNullExpression(expression)) return calleeName(expression.expression);
+  if (ts.isCallExpression(expression)) {
+    const inner = calleeName(expression.expression);
+    return inner === undefined ? undefined : `${inner}()`;
+  }
+  if (ts.isPropertyAccessExpression(expression)) {
+    const inner = calleeName(expression.expression);
+    return inner === undefined ? undefined : `${inner}.${expression.name.text}`.replace(/^window\./, "");
+  }
+  if (ts.isElementAccessExpression(expression) && ts.isStringLiteral(expression.argumentExpression)) {
+    const inner = calleeName(expression.expression);
+    return inner === undefined ? undefined : `${inner}.${expression.argumentExpression.text}`.replace(/^window\./, "");
+  }
+  return undefined;
+}
+
+function checksTypeofSs(node: ts.Node): boolean {
+  if (ts.isTypeOfExpression(node)) {
+    const name = calleeName(node.expression);
+    if (name === "ss") return true;
+  }
+  return ts.forEachChild(node, checksTypeofSs) ?? false;
+}
+
+// Whether a node only runs once a typeof ss check has passed
+function isGuarded(node: ts.Node): boolean {
+  for (let child = node, parent = node.parent; parent; child = parent, parent = parent.parent) {
+    if (ts.isIfStatement(parent) && parent.thenStatement === child && checksTypeofSs(parent.expression)) return true;
+    if (ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken && parent.right === child && checksTypeofSs(parent.left)) return true;
+    if (ts.isConditionalExpression(parent) && parent.whenTrue === child && checksTypeofSs(parent.condition)) return true;
+  }
+  return false;
+}
+
+function isInFunction(node: ts.Node): boolean {
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (ts.isFunctionLike(parent)) return true;
+  }
+  return false;
+}
+
+// The innermost node covering an offset
+function nodeAt(node: ts.Node, offset: number, source: ts.SourceFile): ts.Node {
+  const child = node.getChildren(source).find(candidate => candidate.getStart(source) <= offset && offset < candidate.getEnd());
+  return child ? nodeAt(child, offset, source) : node;
+}
+
+function isStringNode(node: ts.Node): boolean {
+  if (ts.isParenthesizedExpression(node)) return isStringNode(node.expression);
+  return ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node) || isConcatenation(node);
+}
+
+function isConcatenation(node: ts.Node): node is ts.BinaryExpression {
+  return ts.isBinaryExpression(node)
+    && node.operatorToken.kind === ts.SyntaxKind.PlusToken
+    && (isStringNode(node.left) || isStringNode(node.right));
+}
+
+function literalName(node: ts.PropertyName): string | undefined {
+  return ts.isIdentifier(node) || ts.isStringLiteral(node) || ts.isNumericLiteral(node) ? node.text : undefined;
+}
+
+function analyzeJavaScript(code: string, javascript: string, analysis: CodeAnalysis, outputs: TagMatch[], ranges: [number, number][] | undefined) {
+  const source = ts.createSourceFile("code.ts", javascript, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const positionAt = (offset: number): SourcePosition => {
+    const { line, character } = source.getLineAndCharacterOfPosition(offset);
+    return { line: line + 1, column: character + 1 };
+  };
+  const positionOf = (node: ts.Node): SourcePosition => positionAt(node.getStart(source));
+
+  // Literal text is read from the original code, where template tags inside strings are intact
+  const raw = (start: number, end: number) => code.slice(start, end);
+  const stringValue = (node: ts.Node): string => {
+    if (ts.isParenthesizedExpression(node)) return stringValue(node.expression);
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return raw(node.getStart(source) + 1, node.getEnd() - 1);
+    if (ts.isTemplateExpression(node)) {
+      return raw(node.head.getStart(source) + 1, node.head.getEnd() - 2) + node.templateSpans.map(span => {
+        const tail = ts.isTemplateTail(span.literal) ? 1 : 2;
+        return `\${${ts.isIdentifier(span.expression) ? span.expression.text : ""}}${raw(span.literal.getStart(source) + 1, span.literal.getEnd() - tail)}`;
+      }).join("");
+    }
+    if (isConcatenation(node)) return stringValue(node.left) + stringValue(node.right);
+    return `\${${ts.isIdentifier(node) ? node.text : ""}}`;
+  };
+
+  const embedded = (node: ts.Node): ts.Node[] => {
+    if (ts.isParenthesizedExpression(node)) return embedded(node.expression);
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return [];
+    if (ts.isTemplateExpression(node)) return node.templateSpans.map(span => span.expression);
+    if (isConcatenation(node)) return [...embedded(node.left), ...embedded(node.right)];
+    return [node];
+  };
+
+  // Object literals assigned to names, so an argument naming one can be inspected
+  const objects = new Map<string, ts.ObjectLiteralExpression>();
+  const collectObjects = (node: ts.Node) => {
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer && ts.isObjectLiteralExpression(node.initializer)) {
+      objects.set(node.name.text, node.initializer);
+    }
+    ts.forEachChild(node, collectObjects);
+  };
+  collectObjects(source);
+
+  const objectFor = (node: ts.Node): ts.ObjectLiteralExpression | undefined => {
+    if (ts.isObjectLiteralExpression(node)) return node;
+    return ts.isIdentifier(node) ? objects.get(node.text) : undefined;
+  };
+  const keysOf = (object: ts.ObjectLiteralExpression): NameSite[] => object.properties.flatMap(property => {
+    const name = property.name && literalName(property.name);
+    if (name === undefined) return [];
+    const value = ts.isPropertyAssignment(property) && (ts.isStringLiteral(property.initializer) || ts.isNumericLiteral(property.initializer) || ts.isNoSubstitutionTemplateLiteral(property.initializer))
+      ? property.initializer.text
+      : undefined;
+    return [{ name, value, ...positionOf(property) }];
+  });
+  const addRequestParams = (node: ts.Node | undefined) => {
+    const object = node && objectFor(node);
+    if (object) analysis.requestParams.push(...keysOf(object));
+  };
+
+  const visit = (node: ts.Node) => {
+    if (isStringNode(node)) {
+      const site = { value: stringValue(node), ...positionOf(node) };
+      analysis.strings.push(site);
+      addQueryParams(analysis, site);
+      // Literal parts belong to this string; the expressions between them are read on their own
+      embedded(node).forEach(visit);
+      return;
+    }
+
+    if (ts.isCallExpression(node)) {
+      const callee = calleeName(node.expression);
+      if (callee !== undefined) {
+        analysis.calls.push({
+          callee,
+          args: node.arguments.map(argument => {
+            const object = objectFor(argument);
+            return object ? keysOf(object).map(({ name }) => name) : undefined;
+          }),
+          guarded: isGuarded(node),
+          inFunction: isInFunction(node),
+          ...positionOf(node),
+        });
+        if (/\.catch$/.test(callee) || (/\.then$/.test(callee) && node.arguments.length > 1)) {
+          analysis.errorHandling = true;
+        }
+        const [name, value] = node.arguments;
+        if (/\.(?:set|append)$/.test(callee) && name && ts.isStringLiteral(name)) {
+          analysis.requestParams.push({ name: name.text, value: value && ts.isStringLiteral(value) ? value.text : undefined, ...positionOf(name) });
+        }
+      }
+    }
+
+    if (ts.isNewExpression(node) && calleeName(node.expression) === "URLSearchParams") {
+      addRequestParams(node.arguments?.[0]);
+    }
+
+    if (ts.isPropertyAssignment(node) || ts.isShorthandPropertyAssignment(node)) {
+      const name = literalName(node.name);
+      if (name !== undefined) {
+        const value = ts.isPropertyAssignment(node) && (ts.isStringLiteral(node.initializer) || ts.isNumericLiteral(node.initializer)) ? node.initializer.text : undefined;
+        analysis.properties.push({ name, value, ...positionOf(node) });
+        if (REQUEST_OPTION_KEYS.includes(name)) {
+          addRequestParams(ts.isPropertyAssignment(node) ? node.initializer : node.name);
+        }
+      }
+    }
+
+    if (ts.isTryStatement(node)) {
+      analysis.errorHandling = true;
+    }
+
+    if ((ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node)) && node.name && ts.isIdentifier(node.name)) {
+      analysis.functions.push({ name: node.name.text, ...positionOf(node) });
+    }
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer
+      && (ts.isFunctionExpression(node.initializer) || ts.isArrowFunction(node.initializer))) {
+      analysis.functions.push({ name: node.name.text, ...positionOf(node) });
+    }
+
+    if (ts.isIdentifier(node)) {
+      analysis.identifiers.push({ name: node.text, ...positionOf(node) });
+    }
+
+    // The whole of a.b.c, not its parts; a callee is already a call
+    if (ts.isPropertyAccessExpression(node) && !ts.isPropertyAccessExpression(node.parent)
+      && !(ts.isCallExpression(node.parent) && node.parent.expression === node)) {
+      const name = calleeName(node);
+      if (name !== undefined) analysis.references.push({ name, ...positionOf(node) });
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  // Every comment is in the trivia around some token, punctuation and the end of the file included
+  const seen = new Set<number>();
+  const visitTokens = (node: ts.Node) => {
+    const trivia = [...ts.getLeadingCommentRanges(javascript, node.pos) ?? [], ...ts.getTrailingCommentRanges(javascript, node.end) ?? []];
+    for (const { pos, end } of trivia) {
+      if (seen.has(pos)) continue;
+      seen.add(pos);
+      analysis.comments.push({ text: raw(pos, end), ...positionAt(pos) });
+    }
+    node.getChildren(source).forEach(visitTokens);
+  };
+  visitTokens(source);
+  analysis.comments.sort((a, b) => a.line - b.line || a.column - b.column);
+
+  const dialect = analysis.templateDialect;
+  for (const { start, tag, dialect: tagDialect } of outputs) {
+    const inScript = ranges === undefined || ranges.some(([scriptStart, scriptEnd]) => start >= scriptStart && start < scriptEnd);
+    const node = inScript ? nodeAt(source, start, source) : undefined;
+    let property: string | undefined;
+    for (let parent = node; parent; parent = parent.parent) {
+      if (ts.isPropertyAssignment(parent)) {
+        property = literalName(parent.name);
+        break;
+      }
+    }
+    analysis.templateOutputs.push({
+      tag,
+      dialect: tagDialect !== "mustache" ? tagDialect : dialect === "handlebars" ? "handlebars" : "liquid",
+      context: !node ? "html" : ts.isStringLiteral(node) || ts.isTemplateLiteralToken(node) || ts.isNoSubstitutionTemplateLiteral(node) ? "string" : "script",
+      property,
+      ...positionAt(start),
+    });
+  }
+}
+
+// Comments blanked, and the string literals and comments found, for languages without a parser here
+function scanServerCode(code: string, language: "php" | "python"): { masked: string; literals: { start: number; end: number; value: string }[]; comments: { start: number; end: number }[] } {
+  const literals: { start: number; end: number; value: string }[] = [];
+  const comments: { start: number; end: number }[] = [];
+  let masked = "";
+  let index = 0;
+  while (index < code.length) {
+    const rest = code.slice(index, index + 3);
+    const lineComment = rest.startsWith("#") || (language === "php" && rest.startsWith("//"));
+    const blockComment = language === "php" && rest.startsWith("/*");
+    if (lineComment || blockComment) {
+      const end = lineComment ? code.indexOf("\n", index) : code.indexOf("*/", index + 2);
+      const stop = end === -1 ? code.length : lineComment ? end : end + 2;
+      comments.push({ start: index, end: stop });
+      masked += blank(code.slice(index, stop));
+      index = stop;
+      continue;
+    }
+    const char = code[index] ?? "";
+    if (char === "'" || char === '"') {
+      const quote = language === "python" && (rest === "'''" || rest === '"""') ? rest : char;
+      let end = index + quote.length;
+      while (end < code.length && !code.startsWith(quote, end)) {
+        end += code[end] === "\\" ? 2 : 1;
+      }
+      end = Math.min(end, code.length);
+      literals.push({ start: index, end: end + quote.length, value: code.slice(index + quote.length, end) });
+      masked += quote + blank(code.slice(index + quote.length, end)) + quote;
+      index = end + quote.length;
+      continue;
+    }
+    masked += char;
+    index++;
+  }
+  return { masked: masked.slice(0, code.length), literals, comments };
+}
+
+function analyzeServerCode(code: string, analysis: CodeAnalysis & { language: "php" | "python" }, positionAt: (offset: number) => SourcePosition) {
+  const { masked, literals, comments } = scanServerCode(code, analysis.language);
+  for (const { start, end } of comments) {
+    analysis.comments.push({ text: code.slice(start, end), ...positionAt(start) });
+  }
+  const operator = analysis.language === "php" ? "\\." : "\\+";
+  // A literal, optionally one operand, then another literal: 'https://' . $siteId . '.a.searchspring.io'
+  const joiner = new RegExp(`^\\s*${operator}\\s*(?:([$\\w]+(?:(?:->|::|\\.)\\w+|\\[[^\\]]*\\]|\\([^()]*\\))*)\\s*${operator}\\s*)?$`);
+
+  for (let index = 0; index < literals.length; index++) {
+    const first = literals[index]!;
+    let value = first.value;
+    for (let next = literals[index + 1]; next; next = literals[index + 1]) {
+      const between = joiner.exec(masked.slice(literals[index]!.end, next.start));
+      if (!between) break;
+      const operand = between[1];
+      const name = operand !== undefined && /^\$?\w+$/.test(operand) ? operand.replace(/^\$/, "") : "";
+      value += `${operand === undefined ? "" : `\${${name}}`}${next.value}`;
+      index++;
+    }
+    const site = { value, ...positionAt(first.start) };
+    analysis.strings.push(site);
+    addQueryParams(analysis, site);
+  }
+
+  // Array and dict keys ('siteId' => ..., "siteId": ...) and keyword arguments (params=...)
+  for (const literal of literals) {
+    if (/^\s*(?:=>|:)/.test(masked.slice(literal.end))) {
+      const site = { name: literal.value, ...positionAt(literal.start) };
+      analysis.properties.push(site);
+      analysis.requestParams.push(site);
+    }
+  }
+  for (const match of masked.matchAll(/[(,]\s*(\w+)\s*=(?![=>])/g)) {
+    analysis.properties.push({ name: match[1] ?? "", ...positionAt((match.index ?? 0) + match[0].indexOf(match[1] ?? "")) });
+  }
+
+  for (const match of masked.matchAll(/(?<![\w$>:.]|\b(?:function|def)\s+)([$\w]+(?:(?:->|::|\.)\w+)*)\s*\(/g)) {
+    const callee = (match[1] ?? "").replace(/->|::/g, ".").replace(/^\$/, "");
+    if (SERVER_KEYWORDS.includes(callee.toLowerCase())) continue;
+    analysis.calls.push({ callee, args: [], guarded: false, inFunction: false, ...positionAt(match.index ?? 0) });
+  }
+  for (const match of masked.matchAll(/\b(?:function|def)\s+(\w+)/g)) {
+    analysis.functions.push({ name: match[1] ?? "", ...positionAt(match.index ?? 0) });
+  }
+  for (const match of masked.matchAll(/\$?\b[A-Za-z_]\w*/g)) {
+    analysis.identifiers.push({ name: match[0].replace(/^\$/, ""), ...positionAt(match.index ?? 0) });
+  }
+  analysis.errorHandling = /\btry\b/.test(masked);
+}
+
+// The calls, strings, request parameters and script tags in a code sample. HTML and theme
+// templates are read through their inline scripts, with template tags standing in for values;
+// the template language is detected unless the platform's is given.
+export function analyzeCode(code: string, dialect?: TemplateDialect): CodeAnalysis {
+  const positionAt = positionFinder(code);
+  const isHtml = /<script\b/i.test(code) || /^\s*<(?!\?php)[a-z!]/i.test(code);
+
+  if (!isHtml && /^\s*<\?php/.test(code)) {
+    const analysis = { ...emptyAnalysis("php"), language: "php" as const };
+    analyzeServerCode(code, analysis, positionAt);
+    return analysis;
+  }
+  if (!isHtml && PYTHON_PATTERN.test(code)) {
+    const analysis = { ...emptyAnalysis("python"), language: "python" as const };
+    analyzeServerCode(code, analysis, positionAt);
+    return analysis;
+  }
+
+  const analysis = emptyAnalysis("javascript");
+  const uncommented = maskAll(code, isHtml ? [HTML_COMMENT_PATTERN, ...TEMPLATE_COMMENT_PATTERNS] : TEMPLATE_COMMENT_PATTERNS, (comment, start) => {
+    analysis.comments.push({ text: comment, ...positionAt(start) });
+    return blank(comment);
+  });
+  analysis.templateDialect = dialect ?? detectDialect(uncommented);
+  const outputs: TagMatch[] = [];
+  const masked = maskTemplateTags(uncommented, outputs);
+  const { javascript, ranges } = isHtml ? extractScripts(code, masked, analysis, positionAt) : { javascript: masked, ranges: undefined };
+  analyzeJavaScript(code, javascript, analysis, outputs.sort((a, b) => a.start - b.start), ranges);
+  return analysis;
+}
@@ -0,0 +1,712 @@
+import { readFileSync } from "node:fs";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { analyzeCode, CodeAnalysis, SourcePosition, TemplateDialect } from "./code-analyzer.js";
+import { API_ENDPOINTS, ApiName, findEndpointReferences } from "./endpoints.js";
+import {
+  CodeApiSchema,
+  CodeValidationOutputSchema,
+  CodeValidationParamsSchema,
+  ListRulesParamsSchema,
+  RuleSeveritySchema,
+  ValidationRuleSchema,
+} from "./schemas.js";
+import { platformContext } from "./template-engine.js";
+
+type CodeValidationParams = z.infer<typeof CodeValidationParamsSchema>;
+
+type CodeType = CodeValidationParams["codeType"];
+
+type ValidatorPlatform = NonNullable<CodeValidationParams["platform"]>;
+
+type ListRulesParams = z.infer<typeof ListRulesParamsSchema>;
+
+export type CodeFinding = z.infer<typeof CodeValidationOutputSchema>["findings"][number];
+
+export type ValidationRule = z.infer<typeof ValidationRuleSchema>;
+
+type RuleSeverity = z.infer<typeof RuleSeveritySchema>;
+
+// Rules file: rule id -> severity, or "off" to disable the rule
+const RulesFileSchema = z.object({
+  rules: z.record(z.union([RuleSeveritySchema, z.literal("off")])).default({}),
+}).strict();
+
+export type RuleConfig = z.infer<typeof RulesFileSchema>["rules"];
+
+interface RuleContext {
+  analysis: CodeAnalysis;
+  code: string;
+  codeType: CodeType;
+}
+
+interface RuleReporter {
+  // A problem, reported with the rule's configured severity
+  fail(message: string, site?: SourcePosition): void;
+  pass(message: string, site?: SourcePosition): void;
+}
+
+interface CodeRule {
+  id: string;
+  description: string;
+  codeTypes: readonly CodeType[];
+  // Absent for rules that apply on every platform
+  platforms?: readonly ValidatorPlatform[];
+  severity: RuleSeverity;
+  docs: string;
+  check(context: RuleContext, report: RuleReporter): void;
+}
+
+const SEARCH_APIS: CodeType[] = ["search", "autocomplete", "suggest", "trending", "finder", "recommendations"];
+
+const TRACKING_TYPES: CodeType[] = ["tracking", "beacon"];
+
+const INTELLISUGGEST_DOCS = "https://help.searchspring.net/hc/en-us/articles/201185129-Adding-IntelliSuggest-Tracking";
+const PLATFORM_DOCS = "https://help.searchspring.net/hc/en-us/sections/201185149";
+const SHOPIFY_DOCS = "https://help.searchspring.net/hc/en-us/articles/206972376-IntelliSuggest-Tracking-in-Shopify";
+
+function apiDocs(api?: ApiName): string {
+  return api ? `https://docs.searchspring.com/api/${api}/` : "https://docs.searchspring.com/";
+}
+
+// Tracking parameters are checked together by api/tracking-params
+const TRACKING_PARAMS = ["userId", "sessionId", "pageLoadId", "domain"];
+
+// IntelliSuggest calls and the fields each needs in its argument
+const TRACKING_FIELDS: { prefix: string; ruleId: string; fields: string[]; description: string; message: string }[] = [
+  { prefix: "ss.track.product.", ruleId: "tracking/product-sku", fields: ["sku"], description: "Product view tracking sends the product SKU", message: "Product tracking missing required 'sku' field" },
+  { prefix: "ss.track.cart.", ruleId: "tracking/cart-fields", fields: ["sku", "quantity"], description: "Cart tracking sends the SKU and quantity of each item", message: "Cart tracking missing required 'sku' and/or 'quantity' fields" },
+  { prefix: "ss.track.purchase.", ruleId: "tracking/purchase-fields", fields: ["sku", "quantity"], description: "Purchase tracking sends the SKU and quantity of each item", message: "Purchase tracking missing required 'sku' and/or 'quantity' fields" },
+];
+const INTELLISUGGEST_SCRIPT_PATTERN = /cdn\.searchspring\.net\/intellisuggest|is\.min\.js/;
+
+// A URL with siteId:secretKey@ credentials
+const URL_CREDENTIALS_PATTERN = /\/\/[^/\s@]+:[^/\s@]*@/;
+
+// Attributes that let the tracking calls after the script run before it has loaded
+const DEFERRED_SCRIPT_ATTRIBUTES = ["async", "defer"];
+
+// How each template language prints a value into JavaScript safely: escaped inside a string
+// literal, or encoded as a complete JavaScript value
+const JS_ESCAPING: Record<TemplateDialect, { quoted?: RegExp; bare?: RegExp; advice: string }> = {
+  liquid: { bare: /\|\s*json\b/, advice: "{{ value | json }} without the quotes" },
+  handlebars: { bare: /^\{\{\{\s*json\s/, advice: "{{{json value}}} without the quotes" },
+  phtml: { quoted: /escapeJs(?:Quote)?\s*\(/, bare: /json_encode\s*\(/, advice: "<?= json_encode($value) ?> without the quotes, or $block->escapeJs() inside them" },
+  mivascript: { quoted: /^&mvtj:/, advice: "'&mvtj:item:field;' (the JavaScript-escaped entity) inside quotes" },
+  smarty: { quoted: /\|\s*escape\s*:\s*["']?javascript/, bare: /\|\s*json_encode\b/, advice: "'{$value|escape:'javascript'}' inside quotes" },
+};
+
+// Values that are text; prices, quantities and ids print as plain numbers
+const TEXT_VALUE_PATTERN = /sku|name|title|code/i;
+
+// "bigcommerce" means Stencil, as it does for the code generator
+const STENCIL_PLATFORMS: ValidatorPlatform[] = ["bigcommerce", "bigcommerce-stencil"];
+
+// Magento escapers for values printed into HTML
+const MAGENTO_HTML_ESCAPERS = /escape(?:Html|HtmlAttr|Url|Js)\s*\(/;
+
+// Ways server code sends Basic auth credentials without an Authorization header
+const CREDENTIAL_NAMES = ["auth", "CURLOPT_USERPWD", "HTTPBasicAuth"];
+
+// `searchspring-disable-next-line rule-id, ...` in a comment suppresses findings on the line after it,
+// `searchspring-disable-line` findings on its own line and `searchspring-disable` findings anywhere;
+// without rule ids, findings from every rule are suppressed. The same text in a string does nothing.
+const SUPPRESSION_PATTERN = /searchspring-disable(-next-line|-line)?(?=\s|$)(.*)/;
+const RULE_ID_PATTERN = /[\w-]+\/[\w-]+/g;
+
+// Anything that starts like a directive; ones SUPPRESSION_PATTERN does not read are reported
+const DIRECTIVE_PATTERN = /searchspring-disable[\w-]*/;
+
+interface Suppression {
+  // Absent for the whole code sample
+  line?: number;
+  // Empty for every rule
+  ruleIds: string[];
+}
+
+function at(site: SourcePosition | undefined): SourcePosition | Record<string, never> {
+  return site ? { line: site.line, column: site.column } : {};
+}
+
+// Whether the code sends a parameter ("resultsPerPage=0" also needs that value)
+function findParam(analysis: CodeAnalysis, param: string) {
+  const [name, value] = param.split("=");
+  return analysis.requestParams.find(site => site.name === name && (value === undefined || site.value === value));
+}
+
+function findEndpoint(analysis: CodeAnalysis, api: ApiName) {
+  const host = API_ENDPOINTS[api].host.replace("{siteId}", "");
+  return analysis.strings.find(site => site.value.includes(host));
+}
+
+// Searchspring endpoints the code calls besides the registered one for its API (once it calls that one)
+function otherEndpoints(analysis: CodeAnalysis, api: ApiName) {
+  if (!findEndpoint(analysis, api)) {
+    return [];
+  }
+  return analysis.strings.flatMap(site => findEndpointReferences(site.value)
+    .filter(({ reference, apis }) => reference.includes("/") && !apis.includes(api))
+    .map(({ reference, apis }) => ({ site, reference, apis })));
+}
+
+function isBefore(a: SourcePosition, b: SourcePosition): boolean {
+  return a.line < b.line || (a.line === b.line && a.column < b.column);
+}
+
+function intellisuggestScriptTag(analysis: CodeAnalysis) {
+  return analysis.scriptTags.find(tag => INTELLISUGGEST_SCRIPT_PATTERN.test(tag.src));
+}
+
+function trackCalls(analysis: CodeAnalysis) {
+  return analysis.calls.filter(call => call.callee.startsWith("ss.track."));
+}
+
+function templateOutputs(analysis: CodeAnalysis, dialect: TemplateDialect) {
+  return analysis.templateOutputs.filter(output => output.dialect === dialect);
+}
+
+// Check that code calls the registered endpoint for its API
+function endpointRule(id: string, codeTypes: CodeType[], docs: string): CodeRule {
+  return {
+    id,
+    description: "Calls the registered endpoint for the API",
+    codeTypes,
+    severity: "error",
+    docs,
+    check({ analysis, codeType }, report) {
+      const endpoint = API_ENDPOINTS[codeType as ApiName];
+      const found = findEndpoint(analysis, codeType as ApiName);
+      if (!found) {
+        report.fail(`Missing ${endpoint.name} endpoint (should include ${endpoint.host.replace("{siteId}", "")})`);
+      } else {
+        report.pass(`${endpoint.name} endpoint detected`, found);
+      }
+    },
+  };
+}
+
+function trackingFieldsRule({ prefix, ruleId, fields, description, message }: typeof TRACKING_FIELDS[number]): CodeRule {
+  return {
+    id: ruleId,
+    description,
+    codeTypes: TRACKING_TYPES,
+    severity: "error",
+    docs: INTELLISUGGEST_DOCS,
+    check({ analysis }, report) {
+      for (const call of trackCalls(analysis).filter(({ callee }) => callee.startsWith(prefix))) {
+        // An argument that is not an object literal (or a variable holding one) cannot be checked
+        const [argument] = call.args;
+        if (call.args.length === 0 || (argument && !fields.every(field => argument.includes(field)))) {
+          report.fail(message, call);
+        }
+      }
+    },
+  };
+}
+
+// Every rule, in the order its findings are reported
+const CODE_RULES: CodeRule[] = [
+  {
+    id: "tracking/intellisuggest-script",
+    description: "The page includes the IntelliSuggest script",
+    codeTypes: TRACKING_TYPES,
+    severity: "error",
+    docs: INTELLISUGGEST_DOCS,
+    check({ analysis }, report) {
+      const script = intellisuggestScriptTag(analysis) ?? analysis.strings.find(site => INTELLISUGGEST_SCRIPT_PATTERN.test(site.value));
+      if (!script) {
+        report.fail("Missing IntelliSuggest script: <script src='//cdn.searchspring.net/intellisuggest/is.min.js'></script>");
+      } else {
+        report.pass("IntelliSuggest script inclusion detected", script);
+      }
+    },
+  },
+  {
+    id: "tracking/script-async",
+    description: "The IntelliSuggest script tag is not async or deferred",
+    codeTypes: TRACKING_TYPES,
+    severity: "error",
+    docs: INTELLISUGGEST_DOCS,
+    check({ analysis }, report) {
+      const scriptTag = intellisuggestScriptTag(analysis);
+      const deferred = scriptTag?.attributes.filter(attribute => DEFERRED_SCRIPT_ATTRIBUTES.includes(attribute)) ?? [];
+      if (scriptTag && deferred.length > 0) {
+        report.fail(`Remove ${deferred.join("/")} from the IntelliSuggest script tag - tracking calls after it run before it loads, and typeof ss guards then skip them silently`, scriptTag);
+      }
+    },
+  },
+  {
+    id: "tracking/track-calls",
+    description: "The code makes IntelliSuggest tracking calls",
+    codeTypes: TRACKING_TYPES,
+    severity: "error",
+    docs: INTELLISUGGEST_DOCS,
+    check({ analysis }, report) {
+      const calls = trackCalls(analysis);
+      if (calls.length === 0) {
+        report.fail("No tracking calls found (ss.track.product.view, ss.track.cart.add, ss.track.purchase.buy)");
+      } else {
+        report.pass(`Tracking calls detected (${[...new Set(calls.map(call => call.callee))].join(", ")})`, calls[0]);
+      }
+    },
+  },
+  {
+    id: "tracking/script-order",
+    description: "Tracking calls run after the IntelliSuggest script tag",
+    codeTypes: TRACKING_TYPES,
+    severity: "error",
+    docs: INTELLISUGGEST_DOCS,
+    check({ analysis }, report) {
+      const scriptTag = intellisuggestScriptTag(analysis);
+      if (!scriptTag) return;
+      // Calls inside functions run when the function is called, which may be after the script loads
+      for (const call of trackCalls(analysis).filter(call => !call.inFunction && isBefore(call, scriptTag))) {
+        report.fail(`${call.callee} runs before the IntelliSuggest script tag on line ${scriptTag.line} - include the script above the tracking code`, call);
+      }
+    },
+  },
+  {
+    id: "tracking/typeof-guard",
+    description: "Tracking calls are guarded by a typeof ss check",
+    codeTypes: TRACKING_TYPES,
+    severity: "warning",
+    docs: INTELLISUGGEST_DOCS,
+    check({ analysis }, report) {
+      for (const call of trackCalls(analysis).filter(call => !call.guarded)) {
+        report.fail(`Consider adding safety check around ${call.callee}: if (typeof ss != 'undefined')`, call);
+      }
+    },
+  },
+  ...TRACKING_FIELDS.map(trackingFieldsRule),
+  endpointRule("api/endpoint", SEARCH_APIS, apiDocs()),
+  endpointRule("beacon/endpoint", ["beacon"], apiDocs("beacon")),
+  endpointRule("bulk-index/endpoint", ["bulk-index"], apiDocs("bulk-index")),
+  {
+    id: "api/unknown-endpoint",
+    description: "Searchspring URLs in the code are registered endpoints",
+    codeTypes: [...SEARCH_APIS, "beacon", "bulk-index"],
+    severity: "error",
+    docs: apiDocs(),
+    check({ analysis, codeType }, report) {
+      const endpoint = API_ENDPOINTS[codeType as ApiName];
+      for (const { site, reference } of otherEndpoints(analysis, codeType as ApiName).filter(({ apis }) => apis.length === 0)) {
+        report.fail(`Unrecognized Searchspring endpoint: ${reference} (expected ${endpoint.host}${endpoint.path})`, site);
+      }
+    },
+  },
+  {
+    id: "api/endpoint-mismatch",
+    description: "The code does not call another API's endpoint",
+    codeTypes: [...SEARCH_APIS, "beacon", "bulk-index"],
+    severity: "warning",
+    docs: apiDocs(),
+    check({ analysis, codeType }, report) {
+      const endpoint = API_ENDPOINTS[codeType as ApiName];
+      for (const { site, reference, apis: [api] } of otherEndpoints(analysis, codeType as ApiName)) {
+        if (api) {
+          report.fail(`${reference} is the ${API_ENDPOINTS[api].name} endpoint, not the ${endpoint.name} endpoint (${endpoint.host}${endpoint.path})`, site);
+        }
+      }
+    },
+  },
+  {
+    id: "api/required-params",
+    description: "Requests send the parameters the API requires",
+    codeTypes: SEARCH_APIS,
+    severity: "error",
+    docs: apiDocs(),
+    check({ analysis, codeType }, report) {
+      // Required parameters from the endpoint registry (tracking parameters are checked by api/tracking-params)
+      for (const param of API_ENDPOINTS[codeType as ApiName].requiredParams.filter(param => !TRACKING_PARAMS.includes(param))) {
+        const found = findParam(analysis, param);
+        if (!found) {
+          report.fail(`Missing required '${param}' parameter`);
+        } else {
+          report.pass(`${param} parameter detected`, found);
+        }
+      }
+    },
+  },
+  {
+    id: "api/tracking-params",
+    description: "Requests send the tracking parameters the API requires for analytics",
+    codeTypes: SEARCH_APIS,
+    severity: "warning",
+    docs: apiDocs(),
+    check({ analysis, codeType }, report) {
+      // Each tracking parameter in the endpoint registry's required parameters, reported separately
+      for (const param of API_ENDPOINTS[codeType as ApiName].requiredParams.filter(param => TRACKING_PARAMS.includes(param))) {
+        const found = findParam(analysis, param);
+        if (!found) {
+          report.fail(`Missing tracking parameter '${param}' - it is required for analytics`);
+        } else {
+          report.pass(`${param} tracking parameter detected`, found);
+        }
+      }
+    },
+  },
+  {
+    id: "search/query-param",
+    description: "Search requests send the query in q",
+    codeTypes: ["search"],
+    severity: "error",
+    docs: apiDocs("search"),
+    check({ analysis }, report) {
+      if (!findParam(analysis, "q")) {
+        report.fail("Search API missing query parameter 'q'");
+      }
+    },
+  },
+  {
+    id: "autocomplete/debounce",
+    description: "Autocomplete requests are debounced while the shopper types",
+    codeTypes: ["autocomplete"],
+    severity: "warning",
+    docs: apiDocs("autocomplete"),
+    check({ analysis }, report) {
+      const debounced = [...analysis.functions.map(({ name }) => name), ...analysis.calls.map(({ callee }) => callee)].some(name => /debounce/i.test(name))
+        || ["setTimeout", "clearTimeout"].every(timer => analysis.calls.some(call => call.callee === timer));
+      if (!debounced) {
+        report.fail("Consider implementing debouncing for autocomplete to reduce API calls");
+      }
+    },
+  },
+  {
+    id: "recommendations/page-load-id",
+    description: "Recommendations requests send pageLoadId",
+    codeTypes: ["recommendations"],
+    severity: "warning",
+    docs: apiDocs("recommendations"),
+    check({ analysis }, report) {
+      if (!findParam(analysis, "pageLoadId")) {
+        report.fail("Recommendations work better with pageLoadId parameter");
+      }
+    },
+  },
+  {
+    id: "api/error-handling",
+    description: "Failed requests are handled with .catch() or try/catch",
+    codeTypes: SEARCH_APIS,
+    severity: "warning",
+    docs: apiDocs(),
+    check({ analysis }, report) {
+      if (!analysis.errorHandling) {
+        report.fail("No error handling detected - consider adding .catch() or try/catch");
+      }
+    },
+  },
+  {
+    id: "beacon/post-method",
+    description: "Beacon events are sent with POST",
+    codeTypes: ["beacon"],
+    severity: "error",
+    docs: apiDocs("beacon"),
+    check({ analysis }, report) {
+      // fetch/axios method options, $.post and navigator.sendBeacon (always a POST)
+      const methods = API_ENDPOINTS.beacon.methods;
+      const sendsPost = analysis.strings.some(site => methods.some(method => site.value.toUpperCase() === method))
+        || analysis.calls.some(call => call.callee === "navigator.sendBeacon" || methods.some(method => call.callee.toLowerCase().endsWith(`.${method.toLowerCase()}`)));
+      if (!sendsPost) {
+        report.fail(`Beacon API requires ${methods.join(" or ")} method`);
+      }
+    },
+  },
+  {
+    id: "beacon/type-field",
+    description: "Beacon events have a type",
+    codeTypes: ["beacon"],
+    severity: "error",
+    docs: apiDocs("beacon"),
+    check({ analysis }, report) {
+      if (!analysis.properties.some(property => property.name === "type")) {
+        report.fail("Beacon tracking missing required 'type' field");
+      }
+    },
+  },
+  {
+    id: "beacon/payload-schema",
+    description: "Points to searchspring_beacon_validator for checking event payloads",
+    codeTypes: ["beacon"],
+    severity: "suggestion",
+    docs: apiDocs("beacon"),
+    check(_context, report) {
+      report.fail("Check the event objects field by field with searchspring_beacon_validator");
+    },
+  },
+  {
+    id: "bulk-index/secret-key",
+    description: "Bulk index requests send the secret key as Basic auth credentials",
+    codeTypes: ["bulk-index"],
+    severity: "error",
+    docs: apiDocs("bulk-index"),
+    check({ analysis }, report) {
+      // The secret key counts when it is sent, not when a variable is named after it
+      const credentials = analysis.strings.find(site => URL_CREDENTIALS_PATTERN.test(site.value) || /^authorization$/i.test(site.value))
+        ?? analysis.properties.find(property => /^authorization$/i.test(property.name) || property.name === "auth")
+        ?? analysis.identifiers.find(identifier => CREDENTIAL_NAMES.includes(identifier.name))
+        ?? analysis.requestParams.find(param => param.name === "secretKey");
+      if (!credentials) {
+        report.fail("Bulk Index API requires the secret key as Basic auth credentials (siteId:secretKey@ in the URL or an Authorization header)");
+      }
+    },
+  },
+  {
+    id: "bulk-index/required-params",
+    description: "Bulk index requests send the parameters the API requires",
+    codeTypes: ["bulk-index"],
+    severity: "error",
+    docs: apiDocs("bulk-index"),
+    check({ analysis }, report) {
+      for (const param of API_ENDPOINTS["bulk-index"].requiredParams.filter(param => !findParam(analysis, param))) {
+        report.fail(`Bulk Index API missing required '${param}' parameter`);
+      }
+    },
+  },
+  {
+    // An apostrophe in a product name is enough to break an unescaped string
+    id: "template/js-escaping",
+    description: "Template tags printing SKUs and names into a script produce valid JavaScript whatever the value holds",
+    codeTypes: CodeApiSchema.options,
+    severity: "warning",
+    docs: PLATFORM_DOCS,
+    check({ analysis }, report) {
+      for (const output of analysis.templateOutputs) {
+        const { quoted, bare, advice } = JS_ESCAPING[output.dialect];
+        const textValue = TEXT_VALUE_PATTERN.test(output.property ?? "") || TEXT_VALUE_PATTERN.test(output.tag);
+        if (!textValue) continue;
+        if (output.context === "string" && !quoted?.test(output.tag)) {
+          report.fail(bare?.test(output.tag)
+            ? `${output.tag} prints a quoted JavaScript value, so the string it sits in ends up with quotes inside it - use ${advice}`
+            : `${output.tag} is printed into a JavaScript string without JavaScript escaping - a quote or line break in the value breaks the script; use ${advice}`, output);
+        }
+        if (output.context === "script" && !bare?.test(output.tag)) {
+          report.fail(`${output.tag} prints text as bare JavaScript, which is a syntax error - use ${advice}`, output);
+        }
+      }
+    },
+  },
+  {
+    id: "shopify/liquid-syntax",
+    description: "Shopify tracking prints product data with Liquid",
+    codeTypes: ["tracking"],
+    platforms: ["shopify"],
+    severity: "warning",
+    docs: SHOPIFY_DOCS,
+    check({ analysis }, report) {
+      if (templateOutputs(analysis, "liquid").length === 0) {
+        report.fail("No Liquid template variables detected - make sure you're using Shopify's template syntax");
+      }
+    },
+  },
+  {
+    id: "shopify/variant-sku",
+    description: "Shopify templates read the SKU from the selected variant",
+    codeTypes: CodeApiSchema.options,
+    platforms: ["shopify"],
+    severity: "suggestion",
+    docs: SHOPIFY_DOCS,
+    check({ analysis }, report) {
+      for (const output of templateOutputs(analysis, "liquid").filter(({ tag }) => tag.includes("product.variants.first.sku"))) {
+        report.fail("Consider using product.selected_or_first_available_variant.sku for better variant handling", output);
+      }
+    },
+  },
+  {
+    // Checkout extensibility runs no theme code on the thank-you page
+    id: "shopify/web-pixel",
+    description: "Shopify sales tracking uses a Web Pixel extension instead of thank-you page code",
+    codeTypes: ["tracking"],
+    platforms: ["shopify"],
+    severity: "warning",
+    docs: SHOPIFY_DOCS,
+    check({ analysis, code }, report) {
+      const purchase = analysis.calls.find(call => call.callee === "ss.track.purchase.buy");
+      if (purchase && code.includes("order.line_items")) {
+        report.fail("IMPORTANT: For Shopify stores with checkout extensibility, sales tracking must use a Web Pixel extension instead of thank you page code - generate it with searchspring_code_generator (api: beacon, platform: shopify, eventType: sale)", purchase);
+      }
+    },
+  },
+  {
+    id: "bigcommerce/handlebars-syntax",
+    description: "BigCommerce tracking prints product data with Stencil Handlebars",
+    codeTypes: ["tracking"],
+    platforms: STENCIL_PLATFORMS,
+    severity: "warning",
+    docs: PLATFORM_DOCS,
+    check({ analysis }, report) {
+      if (templateOutputs(analysis, "handlebars").length === 0) {
+        report.fail("No Handlebars template syntax detected - make sure you're using BigCommerce's Stencil template syntax");
+      }
+    },
+  },
+  {
+    // Stencil's product object exists when the template renders, not in the browser
+    id: "bigcommerce/stencil-sku",
+    description: "Scripts print the SKU with Handlebars instead of reading a product object",
+    codeTypes: CodeApiSchema.options,
+    platforms: STENCIL_PLATFORMS,
+    severity: "suggestion",
+    docs: PLATFORM_DOCS,
+    check({ analysis }, report) {
+      for (const reference of analysis.references.filter(({ name }) => name === "product.sku")) {
+        report.fail("Print the SKU with {{{json product.sku}}} - the Stencil product object is not available to scripts", reference);
+      }
+    },
+  },
+  {
+    // Blueprint themes render %%GLOBAL_%% variables; Handlebars tags are printed as-is
+    id: "bigcommerce/blueprint-syntax",
+    description: "BigCommerce Blueprint templates use %%GLOBAL_%% variables instead of Stencil Handlebars",
+    codeTypes: CodeApiSchema.options,
+    platforms: ["bigcommerce-blueprint"],
+    severity: "warning",
+    docs: PLATFORM_DOCS,
+    check({ analysis }, report) {
+      for (const output of analysis.templateOutputs.filter(({ tag }) => tag.startsWith("{{"))) {
+        report.fail(`${output.tag} is Stencil Handlebars syntax, which Blueprint themes do not render - use a %%GLOBAL_%% variable such as %%GLOBAL_SKU%%, or validate with platform bigcommerce-stencil`, output);
+      }
+    },
+  },
+  {
+    id: "magento2/phtml-syntax",
+    description: "Magento 2 tracking prints product data with .phtml PHP tags",
+    codeTypes: ["tracking"],
+    platforms: ["magento2"],
+    severity: "warning",
+    docs: PLATFORM_DOCS,
+    check({ analysis }, report) {
+      if (templateOutputs(analysis, "phtml").length === 0) {
+        report.fail("No PHP template syntax detected - make sure you're using Magento's .phtml syntax");
+      }
+    },
+  },
+  {
+    id: "magento2/escape-html",
+    description: "Values printed into HTML are escaped with the block escapers",
+    codeTypes: CodeApiSchema.options,
+    platforms: ["magento2"],
+    severity: "suggestion",
+    docs: PLATFORM_DOCS,
+    check({ analysis }, report) {
+      for (const output of templateOutputs(analysis, "phtml").filter(({ context, tag }) => context === "html" && !MAGENTO_HTML_ESCAPERS.test(tag))) {
+        report.fail("Use $block->escapeHtml() for proper data escaping in Magento 2", output);
+      }
+    },
+  },
+  {
+    // A misspelled directive would otherwise be ignored, leaving the finding it was meant for
+    id: "suppression/unknown-directive",
+    description: "searchspring-disable comments use a directive the validator reads",
+    codeTypes: CodeApiSchema.options,
+    severity: "warning",
+    docs: apiDocs(),
+    check({ analysis }, report) {
+      for (const { text, line, column } of commentLines(analysis)) {
+        const directive = DIRECTIVE_PATTERN.exec(text);
+        if (directive && !SUPPRESSION_PATTERN.test(text)) {
+          report.fail(`Unknown directive '${directive[0]}' suppresses nothing - use searchspring-disable, searchspring-disable-line or searchspring-disable-next-line followed by a space`, { line, column: column + directive.index });
+        }
+      }
+    },
+  },
+];
+
+// Each line of each comment, with its 1-based line and the column its text starts at
+function commentLines(analysis: CodeAnalysis): { text: string; line: number; column: number }[] {
+  return analysis.comments.flatMap(comment => comment.text.split("\n").map((text, index) => ({
+    text,
+    line: comment.line + index,
+    column: index === 0 ? comment.column : 1,
+  })));
+}
+
+function findSuppressions(analysis: CodeAnalysis): Suppression[] {
+  const suppressions: Suppression[] = [];
+  for (const { text, line } of commentLines(analysis)) {
+    const match = SUPPRESSION_PATTERN.exec(text);
+    if (!match) continue;
+    const [, scope, rest = ""] = match;
+    const ruleIds = rest.match(RULE_ID_PATTERN) ?? [];
+    if (scope === undefined) {
+      suppressions.push({ ruleIds });
+    } else {
+      suppressions.push({ line: line + (scope === "-next-line" ? 1 : 0), ruleIds });
+    }
+  }
+  return suppressions;
+}
+
+function isSuppressed(finding: CodeFinding, suppressions: Suppression[]): boolean {
+  return suppressions.some(({ line, ruleIds }) =>
+    (line === undefined || line === finding.line) && (ruleIds.length === 0 || ruleIds.includes(finding.ruleId)));
+}
+
+// Read a YAML (or JSON) rules file that disables or re-grades rules by id
+export function loadRuleConfig(file: string): RuleConfig {
+  let data: unknown;
+  try {
+    data = parseYaml(readFileSync(file, "utf8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid rules file ${file}: ${message}`);
+  }
+
+  const result = RulesFileSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.errors.map(err => `- ${err.path.join(".") || "(root)"}: ${err.message}`);
+    throw new Error(`Invalid rules file ${file}:\n${issues.join("\n")}`);
+  }
+  const unknown = Object.keys(result.data.rules).filter(id => !CODE_RULES.some(rule => rule.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Invalid rules file ${file}: unknown rule ${unknown.join(", ")} - searchspring_list_rules lists the rule ids`);
+  }
+  return result.data.rules;
+}
+
+// The rules for an implementation type and platform, with their severities after the rules file
+export function listRules(params: ListRulesParams, config: RuleConfig = {}): ValidationRule[] {
+  const { codeType, platform } = params;
+  return CODE_RULES
+    .filter(rule => (!codeType || rule.codeTypes.includes(codeType)) && (!platform || !rule.platforms || rule.platforms.includes(platform)))
+    .map(rule => {
+      const setting = config[rule.id] ?? rule.severity;
+      return {
+        id: rule.id,
+        description: rule.description,
+        codeTypes: [...rule.codeTypes],
+        ...(rule.platforms ? { platforms: [...rule.platforms] } : {}),
+        severity: setting === "off" ? rule.severity : setting,
+        defaultSeverity: rule.severity,
+        enabled: setting !== "off",
+        docs: rule.docs,
+      };
+    });
+}
+
+// Check a code sample against the rules for its implementation type and platform. Calls, URLs and
+// parameters are read from parsed code, so commented-out calls and variable names do not count.
+export function validateImplementation(params: CodeValidationParams, config: RuleConfig = {}): { findings: CodeFinding[]; suppressed: CodeFinding[] } {
+  const { code, codeType, platform } = params;
+  const dialect = platform && platform !== "other" ? platformContext(platform).dialect : undefined;
+  const analysis = analyzeCode(code, dialect && dialect in JS_ESCAPING ? dialect as TemplateDialect : undefined);
+  const suppressions = findSuppressions(analysis);
+
+  const findings: CodeFinding[] = [];
+  const suppressed: CodeFinding[] = [];
+  const rules = CODE_RULES.filter(rule => rule.codeTypes.includes(codeType) && (!rule.platforms || (platform && rule.platforms.includes(platform))));
+  for (const rule of rules) {
+    const setting = config[rule.id] ?? rule.severity;
+    if (setting === "off") continue;
+
+    const add = (severity: CodeFinding["severity"], message: string, site?: SourcePosition) => {
+      const finding: CodeFinding = { ruleId: rule.id, severity, message, ...at(site) };
+      (severity !== "pass" && isSuppressed(finding, suppressions) ? suppressed : findings).push(finding);
+    };
+    rule.check({ analysis, code, codeType }, {
+      fail: (message, site) => add(setting, message, site),
+      pass: (message, site) => add("pass", message, site),
+    });
+  }
+
+  return { findings, suppressed };
+}
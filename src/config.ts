@@ -5,6 +5,19 @@ const SearchspringConfigSchema = z.object({
   siteId: z.string().min(1, "Site ID is required").optional(),
   secretKey: z.string().min(1, "Secret key is required for bulk indexing").optional(),
   timeout: z.number().positive().optional().default(10000),
+  contentDir: z.string().min(1).optional(),
+  // Replaces https://{siteId}.a.searchspring.io for live queries, e.g. a local mock server
+  baseUrl: z.string().url("Base URL must be an absolute URL").optional(),
+  // Replaces https://index-api.searchspring.net for bulk indexing
+  indexBaseUrl: z.string().url("Index base URL must be an absolute URL").optional(),
+  // Where bulk index trigger times are persisted between runs
+  indexStateFile: z.string().min(1).optional(),
+  // YAML or JSON file that disables or re-grades code validator rules
+  rulesFile: z.string().min(1).optional(),
+  // Directory that tool file paths (feeds, exports, uploads) must stay inside
+  fileRoot: z.string().min(1).optional(),
+  // Set in HTTP mode, where tool callers are remote: file tools are refused unless fileRoot is set
+  confineFiles: z.boolean().optional(),
 });
 
 export type SearchspringConfig = z.infer<typeof SearchspringConfigSchema>;
@@ -14,6 +27,12 @@ export function validateConfig(): SearchspringConfig {
     siteId: process.env.SEARCHSPRING_SITE_ID,
     secretKey: process.env.SEARCHSPRING_SECRET_KEY,
     timeout: process.env.SEARCHSPRING_TIMEOUT ? parseInt(process.env.SEARCHSPRING_TIMEOUT) : undefined,
+    contentDir: process.env.SEARCHSPRING_CONTENT_DIR,
+    baseUrl: process.env.SEARCHSPRING_BASE_URL,
+    indexBaseUrl: process.env.SEARCHSPRING_INDEX_BASE_URL,
+    indexStateFile: process.env.SEARCHSPRING_INDEX_STATE_FILE,
+    rulesFile: process.env.SEARCHSPRING_RULES_FILE,
+    fileRoot: process.env.SEARCHSPRING_FILE_ROOT,
   };
 
   try {
@@ -26,7 +45,13 @@ export function validateConfig(): SearchspringConfig {
         "Optional environment variables:\n" +
         "- SEARCHSPRING_SITE_ID: (optional) Your Searchspring site ID - LLM can provide examples\n" +
         "- SEARCHSPRING_SECRET_KEY: (optional) Your Searchspring secret key for bulk indexing\n" +
-        "- SEARCHSPRING_TIMEOUT: (optional) Request timeout in milliseconds"
+        "- SEARCHSPRING_TIMEOUT: (optional) Request timeout in milliseconds\n" +
+        "- SEARCHSPRING_CONTENT_DIR: (optional) Directory of knowledge base content to load instead of the bundled one\n" +
+        "- SEARCHSPRING_BASE_URL: (optional) Base URL for live queries instead of https://{siteId}.a.searchspring.io\n" +
+        "- SEARCHSPRING_INDEX_BASE_URL: (optional) Base URL for bulk indexing instead of https://index-api.searchspring.net\n" +
+        "- SEARCHSPRING_INDEX_STATE_FILE: (optional) File recording bulk index trigger times (default: ~/.searchspring-mcp/bulk-index.json)\n" +
+        "- SEARCHSPRING_RULES_FILE: (optional) YAML or JSON file that disables or re-grades code validator rules\n" +
+        "- SEARCHSPRING_FILE_ROOT: (optional) Directory feed and export paths must stay inside (required for file tools in HTTP mode)"
       );
     }
     throw error;
@@ -35,4 +60,105 @@ export function validateConfig(): SearchspringConfig {
 
 export const DEFAULT_CONFIG: Partial<SearchspringConfig> = {
   timeout: 10000,
-};
\ No newline at end of file
+};
+
+// Transport configuration - selects stdio (default) or HTTP mode
+const TransportConfigSchema = z.object({
+  mode: z.enum(["stdio", "http"]).default("stdio"),
+  port: z.number().int().min(0).max(65535).default(3000),
+  host: z.string().min(1).default("127.0.0.1"),
+  // Bearer token HTTP clients must send; without one the server is open to anyone who can reach it
+  token: z.string().min(1).optional(),
+});
+
+export type TransportConfig = z.infer<typeof TransportConfigSchema>;
+
+// Bind addresses only this machine can reach
+function isLoopback(host: string): boolean {
+  return host === "localhost" || host === "::1" || /^127(?:\.\d{1,3}){3}$/.test(host);
+}
+
+// Reads a `--name value` or `--name=value` CLI flag
+function readFlag(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === `--${name}`) {
+      return argv[i + 1];
+    }
+    if (arg?.startsWith(`--${name}=`)) {
+      return arg.slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+export function validateTransportConfig(argv: string[] = process.argv.slice(2)): TransportConfig {
+  const port = readFlag(argv, "port") ?? process.env.MCP_PORT ?? process.env.PORT;
+  const config = {
+    mode: argv.includes("--http") ? "http" : readFlag(argv, "transport") ?? process.env.MCP_TRANSPORT,
+    port: port ? parseInt(port) : undefined,
+    host: readFlag(argv, "host") ?? process.env.MCP_HOST,
+    token: readFlag(argv, "token") ?? process.env.MCP_AUTH_TOKEN,
+  };
+
+  let parsed: TransportConfig;
+  try {
+    parsed = TransportConfigSchema.parse(config);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const invalidFields = error.errors.map(err => err.path.join(".")).join(", ");
+      throw new Error(
+        `Invalid transport configuration. Invalid fields: ${invalidFields}\n\n` +
+        "Transport options (CLI flag or environment variable):\n" +
+        "- --transport=stdio|http or MCP_TRANSPORT (default: stdio); --http is shorthand for http\n" +
+        "- --port or MCP_PORT / PORT: HTTP port (default: 3000)\n" +
+        "- --host or MCP_HOST: HTTP bind address (default: 127.0.0.1; 0.0.0.0 listens on every interface)\n" +
+        "- --token or MCP_AUTH_TOKEN: bearer token HTTP clients must send in the Authorization header"
+      );
+    }
+    throw error;
+  }
+
+  // Anyone who can reach the port could run bulk indexing with the configured secret key
+  if (parsed.mode === "http" && !parsed.token && !isLoopback(parsed.host)) {
+    throw new Error(
+      `Refusing to listen on ${parsed.host} without a bearer token.\n\n` +
+      "Set MCP_AUTH_TOKEN (or --token) so HTTP clients must authenticate, or bind to 127.0.0.1 with MCP_HOST."
+    );
+  }
+  return parsed;
+}
+
+// Mock Searchspring API server configuration
+const MockServerConfigSchema = z.object({
+  port: z.number().int().min(0).max(65535).default(4000),
+  host: z.string().min(1).default("127.0.0.1"),
+  catalog: z.string().min(1).optional(),
+});
+
+export type MockServerConfig = z.infer<typeof MockServerConfigSchema>;
+
+export function validateMockServerConfig(argv: string[] = process.argv.slice(2)): MockServerConfig {
+  const port = readFlag(argv, "port") ?? process.env.MOCK_PORT;
+  const config = {
+    port: port ? parseInt(port) : undefined,
+    host: readFlag(argv, "host") ?? process.env.MOCK_HOST,
+    catalog: readFlag(argv, "catalog") ?? process.env.MOCK_CATALOG,
+  };
+
+  try {
+    return MockServerConfigSchema.parse(config);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const invalidFields = error.errors.map(err => err.path.join(".")).join(", ");
+      throw new Error(
+        `Invalid mock server configuration. Invalid fields: ${invalidFields}\n\n` +
+        "Mock server options (CLI flag or environment variable):\n" +
+        "- --port or MOCK_PORT: HTTP port (default: 4000)\n" +
+        "- --host or MOCK_HOST: bind address (default: 127.0.0.1)\n" +
+        "- --catalog or MOCK_CATALOG: sample catalog JSON file (default: fixtures/catalog.json)"
+      );
+    }
+    throw error;
+  }
+}
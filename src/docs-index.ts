@@ -0,0 +1,185 @@
+import { ApiName } from "./endpoints.js";
+import { KnowledgeBase } from "./knowledge-base.js";
+import { renderTemplate } from "./template-engine.js";
+
+export type DocKind = "guide" | "best-practice" | "parameter" | "troubleshooting";
+
+export interface DocFollowUp {
+  tool: string;
+  arguments: Record<string, string>;
+}
+
+export interface DocEntry {
+  kind: DocKind;
+  api?: ApiName;
+  parameter?: string;
+  title: string;
+  // Searchable passages; the best-matching one becomes the snippet
+  passages: string[];
+  // Extra indexed terms that never appear in snippets
+  keywords?: string[];
+  followUp?: DocFollowUp;
+}
+
+export interface DocMatch {
+  entry: DocEntry;
+  score: number;
+  snippet: string;
+}
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "does", "for", "from", "how", "i", "if", "in",
+  "is", "it", "my", "of", "on", "or", "should", "that", "the", "to", "what", "when", "which", "why", "with", "you",
+]);
+
+const SNIPPET_LENGTH = 200;
+
+// BM25 tuning constants
+const K1 = 1.2;
+const B = 0.75;
+
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith("ies")) return `${token.slice(0, -3)}y`;
+  if (token.length > 5 && token.endsWith("ing")) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith("ed")) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) return token.slice(0, -1);
+  return token;
+}
+
+// Lowercased, stemmed terms; camelCase and dotted names are split so
+// "redirectResponse" and "filter.brand" match "redirect" and "filter"
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+// Every guide, parameter guide, best practice and troubleshooting topic as a searchable entry
+export function buildDocEntries(knowledgeBase: KnowledgeBase, siteId: string): DocEntry[] {
+  const entries: DocEntry[] = [];
+
+  for (const [api, guide] of Object.entries(knowledgeBase.guides) as [ApiName, KnowledgeBase["guides"][string]][]) {
+    const followUp = { tool: "searchspring_api_guide", arguments: { api } };
+    entries.push({
+      kind: "guide",
+      api,
+      title: guide.name,
+      passages: [guide.description, ...guide.useCases],
+      followUp,
+    });
+    for (const practice of guide.bestPractices) {
+      entries.push({ kind: "best-practice", api, title: `${guide.name} best practice`, passages: [practice], followUp });
+    }
+  }
+
+  for (const [api, params] of Object.entries(knowledgeBase.parameters) as [ApiName, KnowledgeBase["parameters"][string]][]) {
+    for (const [parameter, guide] of Object.entries(params)) {
+      entries.push({
+        kind: "parameter",
+        api,
+        parameter,
+        title: `${parameter} (${api} API)`,
+        passages: [guide.description, guide.example, ...guide.bestPractices, ...guide.useCases],
+        keywords: guide.aliases,
+        followUp: { tool: "searchspring_parameter_guide", arguments: { api, parameter } },
+      });
+    }
+  }
+
+  for (const topic of knowledgeBase.troubleshooting) {
+    entries.push({
+      kind: "troubleshooting",
+      title: topic.title,
+      passages: [...topic.items.map(item => renderTemplate(item, { siteId }))],
+      keywords: topic.triggers.flat(),
+    });
+  }
+
+  return entries;
+}
+
+interface IndexedEntry {
+  entry: DocEntry;
+  passageTerms: string[][];
+  termFrequency: Map<string, number>;
+  length: number;
+}
+
+// In-memory BM25 index over the knowledge base
+export class DocsIndex {
+  private documents: IndexedEntry[];
+  private documentFrequency = new Map<string, number>();
+  private averageLength: number;
+
+  constructor(entries: DocEntry[]) {
+    this.documents = entries.map(entry => {
+      const passageTerms = entry.passages.map(tokenize);
+      // Titles count twice so a direct name match outranks a passing mention
+      const terms = [...tokenize(entry.title), ...tokenize(entry.title), ...passageTerms.flat(), ...tokenize((entry.keywords ?? []).join(" "))];
+      const termFrequency = new Map<string, number>();
+      for (const term of terms) {
+        termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1);
+      }
+      return { entry, passageTerms, termFrequency, length: terms.length };
+    });
+
+    for (const document of this.documents) {
+      for (const term of document.termFrequency.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+      }
+    }
+    const totalLength = this.documents.reduce((sum, document) => sum + document.length, 0);
+    this.averageLength = this.documents.length > 0 ? totalLength / this.documents.length : 0;
+  }
+
+  search(query: string, options: { api?: ApiName; limit: number }): DocMatch[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    return this.documents
+      .filter(document => !options.api || !document.entry.api || document.entry.api === options.api)
+      .map(document => ({ document, score: this.score(document, queryTerms) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit)
+      .map(({ document, score }) => ({
+        entry: document.entry,
+        score: Math.round(score * 1000) / 1000,
+        snippet: this.snippet(document, queryTerms),
+      }));
+  }
+
+  private score(document: IndexedEntry, queryTerms: string[]): number {
+    const count = this.documents.length;
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = document.termFrequency.get(term);
+      if (!frequency) continue;
+      const documentFrequency = this.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const norm = 1 - B + B * (document.length / this.averageLength);
+      score += idf * ((frequency * (K1 + 1)) / (frequency + K1 * norm));
+    }
+    return score;
+  }
+
+  // The passage sharing the most terms with the query, trimmed to snippet length
+  private snippet(document: IndexedEntry, queryTerms: string[]): string {
+    let best = 0;
+    let bestHits = -1;
+    document.passageTerms.forEach((terms, index) => {
+      const hits = queryTerms.filter(term => terms.includes(term)).length;
+      if (hits > bestHits) {
+        best = index;
+        bestHits = hits;
+      }
+    });
+    const passage = (document.entry.passages[best] ?? "").replace(/\s+/g, " ").trim();
+    return passage.length > SNIPPET_LENGTH ? `${passage.slice(0, SNIPPET_LENGTH - 1)}…` : passage;
+  }
+}
@@ -0,0 +1,159 @@
+import { z } from "zod";
+import { ApiNameSchema } from "./schemas.js";
+
+export type ApiName = z.infer<typeof ApiNameSchema>;
+
+export type HttpMethod = "GET" | "POST" | "PUT";
+
+export interface ApiEndpoint {
+  name: string;
+  // Host and path may contain a {siteId} placeholder
+  host: string;
+  path: string;
+  methods: HttpMethod[];
+  // basic: siteId:secretKey credentials, sent in an Authorization: Basic header
+  auth: "none" | "basic";
+  requiredParams: string[];
+  optionalParams: string[];
+  // Path reporting the state of the last job started on this endpoint (same host and auth)
+  statusPath?: string;
+}
+
+export interface ResolvedEndpoint extends ApiEndpoint {
+  api: ApiName;
+  url: string;
+}
+
+// Single registry of Searchspring API endpoints - guides, code generation and
+// validation all read hosts, paths and parameters from here.
+export const API_ENDPOINTS: Record<ApiName, ApiEndpoint> = {
+  search: {
+    name: "Search API",
+    host: "{siteId}.a.searchspring.io",
+    path: "/api/search/search.json",
+    methods: ["GET"],
+    auth: "none",
+    requiredParams: ["siteId", "resultsFormat", "userId", "sessionId", "pageLoadId", "domain"],
+    optionalParams: ["q", "page", "resultsPerPage", "filter.*", "bgfilter.*", "sort.*", "redirectResponse", "landingPage", "tag", "includedFacets", "excludedFacets", "disableInlineBanners", "lastViewed", "cart", "shopper"],
+  },
+  autocomplete: {
+    name: "Autocomplete API",
+    host: "{siteId}.a.searchspring.io",
+    path: "/api/search/autocomplete.json",
+    methods: ["GET"],
+    auth: "none",
+    requiredParams: ["siteId", "resultsFormat", "userId", "sessionId", "pageLoadId", "domain"],
+    optionalParams: ["q", "resultsPerPage", "page", "filter.*", "bgfilter.*", "sort.*", "redirectResponse", "lastViewed", "cart", "shopper"],
+  },
+  suggest: {
+    name: "Suggest API",
+    host: "{siteId}.a.searchspring.io",
+    path: "/api/suggest/query",
+    methods: ["GET"],
+    auth: "none",
+    requiredParams: ["siteId"],
+    optionalParams: ["q", "language", "suggestionCount", "productCount"],
+  },
+  trending: {
+    name: "Trending API",
+    host: "{siteId}.a.searchspring.io",
+    path: "/api/suggest/trending",
+    methods: ["GET"],
+    auth: "none",
+    requiredParams: ["siteId"],
+    optionalParams: ["limit"],
+  },
+  recommendations: {
+    name: "Recommendations API",
+    host: "{siteId}.a.searchspring.io",
+    path: "/boost/{siteId}/recommend",
+    methods: ["GET"],
+    auth: "none",
+    requiredParams: ["tags"],
+    optionalParams: ["products", "blockedItems", "categories", "brands", "shopper", "cart", "lastViewed", "limits", "filter.*"],
+  },
+  finder: {
+    name: "Finder API",
+    host: "{siteId}.a.searchspring.io",
+    path: "/api/search/search.json",
+    methods: ["GET"],
+    auth: "none",
+    requiredParams: ["siteId", "resultsPerPage=0"],
+    optionalParams: ["filter.*", "bgfilter.*", "includedFacets", "excludedFacets"],
+  },
+  beacon: {
+    name: "Beacon API",
+    host: "beacon.searchspring.io",
+    path: "/api/event",
+    methods: ["POST"],
+    auth: "none",
+    // Fields of each event object in the POSTed array
+    requiredParams: ["category", "context", "event", "id", "type"],
+    optionalParams: ["pid"],
+  },
+  "bulk-index": {
+    name: "Bulk Indexing API",
+    host: "index-api.searchspring.net",
+    path: "/api/index/feed",
+    methods: ["PUT", "POST"],
+    auth: "basic",
+    requiredParams: ["feedId"],
+    optionalParams: ["requestedBy"],
+    statusPath: "/api/index/status",
+  },
+};
+
+// Hosts that serve static assets or documentation rather than APIs
+const NON_API_HOSTS = ["cdn.searchspring.net", "docs.searchspring.com", "help.searchspring.net"];
+
+const ENDPOINT_REFERENCE_PATTERN = /(?:[a-z0-9${}-]+\.)*searchspring\.(?:io|net|com)(?:\/[^\s'"`?#)<>\\]*)?/gi;
+
+export function resolveEndpoint(api: ApiName, siteId: string): ResolvedEndpoint {
+  const endpoint = API_ENDPOINTS[api];
+  const host = endpoint.host.replace(/\{siteId\}/g, siteId);
+  const path = endpoint.path.replace(/\{siteId\}/g, siteId);
+  return { ...endpoint, api, host, path, url: `https://${host}${path}` };
+}
+
+export function resolveEndpoints(siteId: string): Record<ApiName, ResolvedEndpoint> {
+  return Object.fromEntries(
+    ApiNameSchema.options.map(api => [api, resolveEndpoint(api, siteId)])
+  ) as Record<ApiName, ResolvedEndpoint>;
+}
+
+function templateToPattern(template: string): string {
+  return template
+    .split("{siteId}")
+    .map(part => part.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&"))
+    .join("[^/.:@]+");
+}
+
+// The APIs whose host and path match a URL (finder shares the search endpoint)
+export function matchEndpoint(url: string): ApiName[] {
+  const withoutScheme = url.replace(/^[a-z]+:\/\//i, "").replace(/^[^@/]*@/, "");
+  const [hostAndPath = ""] = withoutScheme.split(/[?#]/);
+  return ApiNameSchema.options.filter(api => {
+    const endpoint = API_ENDPOINTS[api];
+    const pattern = new RegExp(`^${templateToPattern(endpoint.host)}${templateToPattern(endpoint.path)}/?$`, "i");
+    return pattern.test(hostAndPath);
+  });
+}
+
+// The registry entry a query parameter name falls under ("filter.brand.low" is "filter.*").
+// Finder requests are Search API requests, so Search API parameters apply to them too.
+export function findRegistryParam(api: ApiName, name: string): string | undefined {
+  const { requiredParams, optionalParams } = API_ENDPOINTS[api];
+  const found = [...requiredParams, ...optionalParams].find(param => {
+    const bare = param.replace(/=.*$/, "");
+    return bare.endsWith(".*") ? name.startsWith(bare.slice(0, -1)) : bare === name;
+  });
+  return found ?? (api === "finder" ? findRegistryParam("search", name) : undefined);
+}
+
+// Every Searchspring API host+path referenced in a piece of code, with the APIs it maps to
+export function findEndpointReferences(code: string): { reference: string; apis: ApiName[] }[] {
+  const references = code.match(ENDPOINT_REFERENCE_PATTERN) ?? [];
+  return references
+    .filter(reference => !NON_API_HOSTS.some(host => reference.toLowerCase().startsWith(host)))
+    .map(reference => ({ reference, apis: matchEndpoint(reference) }));
+}
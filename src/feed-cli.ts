@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+
+import { validateConfig } from "./config.js";
+import { FeedFormatSchema } from "./schemas.js";
+import { SearchspringClient } from "./searchspring-client.js";
+
+// Validate a feed file from the command line; exits non-zero when the feed has errors
+async function main() {
+  const [path, format] = process.argv.slice(2);
+  if (!path) {
+    console.error(`Usage: npm run validate-feed -- <feed file> [${FeedFormatSchema.options.join("|")}]`);
+    process.exit(2);
+  }
+
+  try {
+    const client = new SearchspringClient(validateConfig());
+    const result = await client.validateFeed({ path, ...(format ? { format: FeedFormatSchema.parse(format) } : {}) });
+    const [content] = result.content;
+    console.log(content?.type === "text" ? content.text : "");
+    process.exit(result.structuredContent?.valid ? 0 : 1);
+  } catch (error) {
+    console.error("Feed validation failed:", error instanceof Error ? error.message : error);
+    process.exit(2);
+  }
+}
+
+main();
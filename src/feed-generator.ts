@@ -0,0 +1,736 @@
+import { existsSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import { basename, dirname, extname, join, resolve } from "node:path";
+import { z } from "zod";
+import { FeedRecord, parseDelimited, validateFeedFile } from "./feed-validator.js";
+import { FeedGeneratorOutputSchema, FeedGeneratorParamsSchema, FeedSourcePlatformSchema } from "./schemas.js";
+
+export type FeedGeneratorParams = z.infer<typeof FeedGeneratorParamsSchema>;
+
+export type FeedGeneratorOutput = z.infer<typeof FeedGeneratorOutputSchema>;
+
+export type FeedSourcePlatform = z.infer<typeof FeedSourcePlatformSchema>;
+
+type Finding = FeedGeneratorOutput["findings"][number];
+
+interface SourceVariant {
+  fields: FeedRecord;
+  // Option name -> value, e.g. {Size: "M", Color: "Red"}
+  options: Record<string, string>;
+}
+
+// One product from the export, with the rows of its variants
+interface SourceProduct {
+  fields: FeedRecord;
+  variants: SourceVariant[];
+}
+
+interface GroupResult {
+  products: SourceProduct[];
+  skippedRows: number;
+}
+
+interface PlatformProfile {
+  label: string;
+  // Columns only this platform's export has
+  signature: string[];
+  // Feed field -> export column, or a template with {Column} placeholders
+  mapping: Record<string, string>;
+  categorySeparator: string;
+  // Separator between category paths in one cell
+  categoryListSeparator: string;
+  // Top-level categories the platform puts in front of every path
+  categoryRoots: string[];
+  tagSeparator: string;
+  group(rows: FeedRecord[], params: FeedGeneratorParams, findings: Finding[]): GroupResult;
+}
+
+const INPUT_EXTENSIONS = [".csv", ".tsv", ".txt", ".json"];
+
+// Extensions the feed validator and bulk index recognize for each generated format
+const OUTPUT_EXTENSIONS: Record<FeedGeneratorParams["format"], string[]> = {
+  csv: [".csv"],
+  tsv: [".tsv", ".txt"],
+  json: [".json"],
+};
+
+// Feed fields reported when no export column is found for them
+const CORE_FIELDS = ["id", "name", "price", "url", "image"];
+
+// Field order in the generated feed; option and custom fields follow
+const FIELD_ORDER = [
+  "id", "parent_id", "sku", "name", "description", "brand", "price", "msrp", "url", "image",
+  "categories", "category_hierarchy", "tags", "quantity", "in_stock", "variant_skus",
+];
+
+// Fields read from the product row before its variant rows; every other field prefers the variant
+const PRODUCT_FIELDS = ["id", "name", "description", "brand", "url", "categories", "tags"];
+
+// Separator between levels of a category_hierarchy value
+const HIERARCHY_SEPARATOR = ">";
+
+// Column names that hold a variant option in custom exports
+const CUSTOM_OPTION_COLUMNS = ["size", "color", "colour", "style", "material", "width", "length", "flavor", "flavour", "finish"];
+
+// Export columns tried in order for each feed field of a custom export
+const CUSTOM_FIELD_ALIASES: Record<string, string[]> = {
+  id: ["id", "product_id", "productid", "uid", "sku"],
+  sku: ["sku", "variant_sku", "item_id", "mpn"],
+  name: ["name", "title", "product_name", "productname"],
+  description: ["description", "body", "body_html", "long_description"],
+  brand: ["brand", "vendor", "manufacturer"],
+  price: ["price", "sale_price", "final_price", "variant_price"],
+  msrp: ["msrp", "compare_at_price", "retail_price", "list_price"],
+  url: ["url", "link", "product_url", "producturl"],
+  image: ["image", "image_url", "imageurl", "image_link", "thumbnail"],
+  categories: ["categories", "category", "category_path", "product_type"],
+  tags: ["tags", "keywords"],
+  quantity: ["quantity", "qty", "inventory", "stock", "stock_level"],
+  in_stock: ["in_stock", "instock", "is_in_stock", "availability"],
+};
+
+const IN_STOCK_VALUES = ["1", "true", "yes", "y", "in stock", "instock", "in_stock", "available"];
+
+function groupBy(rows: FeedRecord[], column: string): Map<string, FeedRecord[]> {
+  const groups = new Map<string, FeedRecord[]>();
+  rows.forEach(row => {
+    const key = (row[column] ?? "").trim();
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  });
+  return groups;
+}
+
+// "color=Red,size=M" pairs from Magento's additional_attributes and configurable_variations
+function parsePairs(value: string): Record<string, string> {
+  return Object.fromEntries(value.split(/,(?=[^,=]+=)/)
+    .map(pair => pair.split("="))
+    .filter(([key]) => key?.trim())
+    .map(([key = "", ...rest]) => [key.trim(), rest.join("=").trim()]));
+}
+
+function groupShopify(rows: FeedRecord[], _params: FeedGeneratorParams, findings: Finding[]): GroupResult {
+  let skippedRows = 0;
+  const products: SourceProduct[] = [];
+  const drafts: string[] = [];
+
+  for (const [handle, group] of groupBy(rows, "Handle")) {
+    const [first] = group;
+    if (!first || !handle) {
+      skippedRows += group.length;
+      continue;
+    }
+    if (["draft", "archived"].includes((first["Status"] ?? "").trim().toLowerCase())) {
+      drafts.push(handle);
+      skippedRows += group.length;
+      continue;
+    }
+    // Option names are only on the first row; rows without a variant SKU or price only add images
+    const optionNames = [1, 2, 3].map(index => (first[`Option${index} Name`] ?? "").trim());
+    const variants = group
+      .filter(row => (row["Variant SKU"] ?? "").trim() || (row["Variant Price"] ?? "").trim())
+      .map(row => ({
+        fields: row,
+        options: Object.fromEntries(optionNames
+          .map((name, index) => [name, (row[`Option${index + 1} Value`] ?? "").trim()] as const)
+          .filter(([name, value]) => name && value && !(name === "Title" && value === "Default Title"))),
+      }));
+    products.push({ fields: first, variants });
+  }
+
+  if (drafts.length > 0) {
+    findings.push({
+      ruleId: "feed-generator/skipped",
+      severity: "suggestion",
+      message: `${drafts.length} draft or archived product(s) were left out: ${drafts.slice(0, 5).join(", ")}${drafts.length > 5 ? ", ..." : ""}`,
+    });
+  }
+  return { products, skippedRows };
+}
+
+function groupBigCommerce(rows: FeedRecord[], _params: FeedGeneratorParams, findings: Finding[]): GroupResult {
+  let skippedRows = 0;
+  let orphans = 0;
+  const products: SourceProduct[] = [];
+
+  for (const row of rows) {
+    const itemType = (row["Item Type"] ?? "Product").trim().toLowerCase();
+    if (itemType === "product") {
+      products.push({ fields: row, variants: [] });
+    } else if (itemType === "sku") {
+      const product = products[products.length - 1];
+      if (!product) {
+        orphans++;
+        skippedRows++;
+        continue;
+      }
+      // SKU rows carry their options in the name column: [S]Size=Small,[RB]Color=Red
+      const options = Object.fromEntries([...(row["Product Name"] ?? "").matchAll(/\[[A-Z]+\]([^=,]+)=([^,]*)/g)]
+        .map(([, name = "", value = ""]) => [name.trim(), value.trim()]));
+      product.variants.push({ fields: { ...row, "Product Name": "" }, options });
+    } else {
+      // Pricing rule rows describe discounts, not products
+      skippedRows++;
+    }
+  }
+
+  if (orphans > 0) {
+    findings.push({ ruleId: "feed-generator/orphan-variant", severity: "warning", message: `${orphans} SKU row(s) came before any Product row and were left out` });
+  }
+  return { products, skippedRows };
+}
+
+function groupMagento(rows: FeedRecord[], _params: FeedGeneratorParams, findings: Finding[]): GroupResult {
+  // Store view rows only override the default values
+  const defaults = rows.filter(row => !(row["store_view_code"] ?? "").trim());
+  let skippedRows = rows.length - defaults.length;
+  if (skippedRows > 0) {
+    findings.push({
+      ruleId: "feed-generator/skipped",
+      severity: "suggestion",
+      message: `${skippedRows} store view row(s) were left out - the feed uses the default (admin) values`,
+    });
+  }
+
+  const records = defaults.map(row => ({ ...parsePairs(row["additional_attributes"] ?? ""), ...row }));
+  const bySku = new Map(records.map(row => [(row["sku"] ?? "").trim(), row]));
+  const children = new Set<string>();
+  const missing: string[] = [];
+
+  const products = records
+    .filter(row => (row["product_type"] ?? "").trim() === "configurable")
+    .map(row => ({
+      fields: row,
+      variants: (row["configurable_variations"] ?? "").split("|").filter(Boolean).map(variation => {
+        const { sku = "", ...options } = parsePairs(variation);
+        children.add(sku);
+        const child = bySku.get(sku);
+        if (!child) missing.push(sku);
+        return { fields: child ?? { sku }, options };
+      }),
+    }));
+
+  let hidden = 0;
+  for (const row of records) {
+    const sku = (row["sku"] ?? "").trim();
+    if ((row["product_type"] ?? "").trim() === "configurable" || children.has(sku)) {
+      continue;
+    }
+    // Simple products that only exist as variants of something else
+    if ((row["visibility"] ?? "").trim() === "Not Visible Individually") {
+      hidden++;
+      continue;
+    }
+    products.push({ fields: row, variants: [] });
+  }
+  skippedRows += hidden;
+
+  if (missing.length > 0) {
+    findings.push({
+      ruleId: "feed-generator/orphan-variant",
+      severity: "warning",
+      message: `${missing.length} configurable variation SKU(s) have no row in the export, so only their options are known: ${missing.slice(0, 5).join(", ")}`,
+    });
+  }
+  if (hidden > 0) {
+    findings.push({
+      ruleId: "feed-generator/skipped",
+      severity: "suggestion",
+      message: `${hidden} product(s) that are not visible individually and belong to no configurable product were left out`,
+    });
+  }
+  return { products, skippedRows };
+}
+
+function groupCustom(rows: FeedRecord[], params: FeedGeneratorParams): GroupResult {
+  const column = params.groupBy;
+  if (!column) {
+    return { products: rows.map(row => ({ fields: row, variants: [] })), skippedRows: 0 };
+  }
+  const products = [...groupBy(rows, column).values()].map(group => {
+    const [first = {}] = group;
+    if (group.length === 1) {
+      return { fields: first, variants: [] };
+    }
+    return {
+      fields: first,
+      variants: group.map(row => ({
+        fields: row,
+        options: Object.fromEntries(Object.entries(row)
+          .filter(([name, value]) => CUSTOM_OPTION_COLUMNS.includes(name.toLowerCase()) && value.trim())
+          .map(([name, value]) => [name, value.trim()])),
+      })),
+    };
+  });
+  return { products, skippedRows: 0 };
+}
+
+const PLATFORM_PROFILES: Record<FeedSourcePlatform, PlatformProfile> = {
+  shopify: {
+    label: "Shopify product CSV",
+    signature: ["Handle", "Variant SKU"],
+    mapping: {
+      id: "Handle",
+      sku: "Variant SKU",
+      name: "Title",
+      description: "Body (HTML)",
+      brand: "Vendor",
+      price: "Variant Price",
+      msrp: "Variant Compare At Price",
+      url: "/products/{Handle}",
+      image: "Image Src",
+      categories: "Product Category",
+      tags: "Tags",
+      quantity: "Variant Inventory Qty",
+    },
+    categorySeparator: " > ",
+    categoryListSeparator: ";",
+    categoryRoots: [],
+    tagSeparator: ",",
+    group: groupShopify,
+  },
+  bigcommerce: {
+    label: "BigCommerce product export",
+    signature: ["Item Type", "Product Code/SKU"],
+    mapping: {
+      id: "Product ID",
+      sku: "Product Code/SKU",
+      name: "Product Name",
+      description: "Product Description",
+      brand: "Brand Name",
+      price: "Price",
+      msrp: "Retail Price",
+      url: "Product URL",
+      image: "Product Image URL - 1",
+      categories: "Category",
+      tags: "Search Keywords",
+      quantity: "Current Stock Level",
+    },
+    categorySeparator: "/",
+    categoryListSeparator: ";",
+    categoryRoots: [],
+    tagSeparator: ",",
+    group: groupBigCommerce,
+  },
+  magento: {
+    label: "Magento 2 catalog_product export",
+    signature: ["sku", "store_view_code", "product_type"],
+    mapping: {
+      id: "sku",
+      sku: "sku",
+      name: "name",
+      description: "description",
+      brand: "manufacturer",
+      price: "price",
+      msrp: "msrp",
+      url: "/{url_key}.html",
+      image: "/media/catalog/product{base_image}",
+      categories: "categories",
+      tags: "meta_keyword",
+      quantity: "qty",
+      in_stock: "is_in_stock",
+    },
+    categorySeparator: "/",
+    categoryListSeparator: ",",
+    categoryRoots: ["Default Category", "Root Catalog"],
+    tagSeparator: ",",
+    group: groupMagento,
+  },
+  custom: {
+    label: "custom export",
+    signature: [],
+    mapping: {},
+    categorySeparator: ">",
+    categoryListSeparator: ",",
+    categoryRoots: [],
+    tagSeparator: ",",
+    group: groupCustom,
+  },
+};
+
+function detectPlatform(columns: Set<string>): FeedSourcePlatform {
+  const detected = (Object.keys(PLATFORM_PROFILES) as FeedSourcePlatform[])
+    .find(platform => PLATFORM_PROFILES[platform].signature.length > 0 && PLATFORM_PROFILES[platform].signature.every(column => columns.has(column)));
+  return detected ?? "custom";
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(toText).join(",");
+  return String(value);
+}
+
+// Nested objects become dotted columns ({"price": {"amount": 5}} -> price.amount)
+function flattenObject(value: Record<string, unknown>, prefix = ""): FeedRecord {
+  return Object.entries(value).reduce<FeedRecord>((record, [key, item]) => {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (typeof item === "object" && item !== null && !Array.isArray(item)) {
+      return { ...record, ...flattenObject(item as Record<string, unknown>, name) };
+    }
+    if (Array.isArray(item) && item.some(entry => typeof entry === "object" && entry !== null)) {
+      return { ...record, [name]: JSON.stringify(item) };
+    }
+    return { ...record, [name]: toText(item) };
+  }, {});
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// A JSON export: an array of products (or an object wrapping one); a "variants" array of objects on
+// a product becomes its variant rows, with an "options" object holding each variant's option values
+function readJsonExport(text: string): SourceProduct[] {
+  const data: unknown = JSON.parse(text);
+  const list = Array.isArray(data) ? data : Object.values(isObject(data) ? data : {}).find(Array.isArray);
+  if (!list) {
+    throw new Error("expected an array of products or an object wrapping one (e.g. {\"products\": [...]})");
+  }
+  return list.filter(isObject).map(({ variants, ...product }) => ({
+    fields: flattenObject(product),
+    variants: (Array.isArray(variants) ? variants : []).filter(isObject).map(variant => ({
+      fields: flattenObject(variant),
+      options: Object.fromEntries(Object.entries(isObject(variant.options) ? variant.options : {}).map(([name, value]) => [name, toText(value)])),
+    })),
+  }));
+}
+
+function readDelimitedExport(text: string, delimiter: string): FeedRecord[] {
+  const [header = [], ...rows] = parseDelimited(text, delimiter);
+  const fields = header.map(name => name.trim());
+  return rows.map(cells => Object.fromEntries(fields.map((name, column) => [name, cells[column] ?? ""])));
+}
+
+function firstValue(sources: FeedRecord[], column: string): string {
+  return sources.map(source => (source[column] ?? "").trim()).find(Boolean) ?? "";
+}
+
+function templateColumns(spec: string): string[] {
+  return [...spec.matchAll(/\{([^{}]+)\}/g)].map(([, column = ""]) => column);
+}
+
+// A column value, or a {Column} template - empty when every placeholder is empty
+function resolveValue(spec: string, sources: FeedRecord[]): string {
+  const columns = templateColumns(spec);
+  if (columns.length === 0) {
+    return firstValue(sources, spec);
+  }
+  if (columns.every(column => !firstValue(sources, column))) {
+    return "";
+  }
+  return spec.replace(/\{([^{}]+)\}/g, (_, column: string) => firstValue(sources, column));
+}
+
+// A price without currency symbols or thousands separators ("$1,299.00" -> "1299.00")
+function cleanPrice(value: string): string | undefined {
+  const cleaned = value.replace(/^[^\d-]*/, "").replace(/,(?=\d{3}\b)/g, "");
+  return /^\d+(?:\.\d+)?$/.test(cleaned) ? cleaned : undefined;
+}
+
+function optionField(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "") || "option";
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))];
+}
+
+class FeedBuilder {
+  private params: FeedGeneratorParams;
+  private profile: PlatformProfile;
+  private mapping: Record<string, string>;
+  private categorySeparator: string;
+  readonly relativeUrls = new Set<string>();
+  readonly badPrices = new Set<string>();
+
+  constructor(params: FeedGeneratorParams, profile: PlatformProfile, mapping: Record<string, string>) {
+    this.params = params;
+    this.profile = profile;
+    this.mapping = mapping;
+    this.categorySeparator = params.categorySeparator ?? profile.categorySeparator;
+  }
+
+  private join(values: string[]): string {
+    return unique(values).join(this.params.multiValueSeparator);
+  }
+
+  private absolute(field: string, value: string): string {
+    if (!value || /^https?:\/\//i.test(value)) {
+      return value;
+    }
+    if (this.params.storeUrl) {
+      return new URL(value, this.params.storeUrl).toString();
+    }
+    this.relativeUrls.add(field);
+    return value;
+  }
+
+  // Every category name, and every ancestor path for the hierarchy facet (Men, Men>Tops)
+  private categories(value: string): { categories: string; category_hierarchy: string } {
+    const separator = this.categorySeparator.trim() || this.categorySeparator;
+    const paths = value.split(this.profile.categoryListSeparator)
+      .map(path => path.split(separator).map(level => level.trim()).filter(Boolean))
+      .map(levels => {
+        const start = levels.findIndex(level => !this.profile.categoryRoots.includes(level));
+        return start === -1 ? [] : levels.slice(start);
+      });
+    return {
+      categories: this.join(paths.flat()),
+      category_hierarchy: this.join(paths.flatMap(levels => levels.map((_, depth) => levels.slice(0, depth + 1).join(HIERARCHY_SEPARATOR)))),
+    };
+  }
+
+  record(product: FeedRecord, variant?: FeedRecord): FeedRecord {
+    const record: FeedRecord = {};
+    for (const [field, spec] of Object.entries(this.mapping)) {
+      const sources = !variant ? [product] : PRODUCT_FIELDS.includes(field) ? [product, variant] : [variant, product];
+      const value = resolveValue(spec, sources);
+      if (field === "categories") {
+        Object.assign(record, this.categories(value));
+      } else if (field === "tags") {
+        record[field] = this.join(value.split(this.profile.tagSeparator).map(tag => tag.trim()));
+      } else if (field === "price" || field === "msrp") {
+        const price = cleanPrice(value);
+        if (value && price === undefined) this.badPrices.add(value);
+        record[field] = price ?? value;
+      } else if (field === "url" || field === "image") {
+        record[field] = this.absolute(field, value);
+      } else if (field === "in_stock") {
+        record[field] = value ? (IN_STOCK_VALUES.includes(value.toLowerCase()) ? "1" : "0") : "";
+      } else {
+        record[field] = value;
+      }
+    }
+    if (!this.mapping.in_stock && record.quantity && !Number.isNaN(Number(record.quantity))) {
+      record.in_stock = Number(record.quantity) > 0 ? "1" : "0";
+    }
+    return record;
+  }
+
+  // One record for the product, with its variants' SKUs, options, stock and lowest price rolled up
+  parent(product: SourceProduct): FeedRecord {
+    const record = this.record(product.fields);
+    if (product.variants.length === 0) {
+      return record;
+    }
+    const variants = product.variants.map(variant => this.record(product.fields, variant.fields));
+    const lowest = (field: string) => {
+      const prices = variants.map(variant => cleanPrice(variant[field] ?? "")).filter((price): price is string => price !== undefined);
+      return prices.reduce<string | undefined>((min, price) => min === undefined || Number(price) < Number(min) ? price : min, undefined) ?? record[field] ?? "";
+    };
+    const quantities = variants.filter(variant => variant.quantity).map(variant => Number(variant.quantity)).filter(quantity => !Number.isNaN(quantity));
+
+    Object.assign(record, {
+      ...(this.mapping.sku ? { sku: record.sku || variants.find(variant => variant.sku)?.sku || "" } : {}),
+      ...(this.mapping.price ? { price: lowest("price") } : {}),
+      ...(this.mapping.msrp ? { msrp: lowest("msrp") } : {}),
+      ...(this.mapping.image ? { image: record.image || variants.find(variant => variant.image)?.image || "" } : {}),
+      ...(quantities.length > 0 ? { quantity: String(quantities.reduce((total, quantity) => total + quantity, 0)) } : {}),
+      ...(variants.some(variant => variant.in_stock) ? { in_stock: variants.some(variant => variant.in_stock === "1") ? "1" : "0" } : {}),
+      variant_skus: this.join(variants.map(variant => variant.sku ?? "")),
+    });
+    for (const name of unique(product.variants.flatMap(variant => Object.keys(variant.options)))) {
+      record[optionField(name)] = this.join(product.variants.map(variant => variant.options[name] ?? ""));
+    }
+    return record;
+  }
+
+  // One record per variant, pointing at its product with parent_id
+  each(product: SourceProduct): FeedRecord[] {
+    if (product.variants.length === 0) {
+      return [this.record(product.fields)];
+    }
+    const parentId = this.record(product.fields).id ?? "";
+    return product.variants.map((variant, index) => {
+      const record = this.record(product.fields, variant.fields);
+      const options = Object.fromEntries(Object.entries(variant.options).map(([name, value]) => [optionField(name), value]));
+      return { ...record, ...options, id: record.sku || `${parentId}-${index + 1}`, parent_id: parentId };
+    });
+  }
+}
+
+// The profile mapping with overrides applied; fields whose column is not in the export are dropped
+function resolveMapping(
+  profile: PlatformProfile,
+  platform: FeedSourcePlatform,
+  columns: Set<string>,
+  overrides: Record<string, string>,
+  findings: Finding[]
+): Record<string, string> {
+  const lowerColumns = new Map([...columns].map(column => [column.toLowerCase(), column]));
+  const defaults = platform === "custom"
+    ? Object.fromEntries(Object.entries(CUSTOM_FIELD_ALIASES)
+      .map(([field, aliases]) => [field, aliases.map(alias => lowerColumns.get(alias)).find(Boolean) ?? ""] as const)
+      .filter(([, column]) => column))
+    : profile.mapping;
+
+  const mapping: Record<string, string> = {};
+  for (const [field, spec] of Object.entries({ ...defaults, ...overrides })) {
+    if (!spec) continue;
+    const required = templateColumns(spec).length > 0 ? templateColumns(spec) : [spec];
+    const missing = required.filter(column => !columns.has(column));
+    if (missing.length === 0) {
+      mapping[field] = spec;
+    } else if (field in overrides) {
+      findings.push({
+        ruleId: "feed-generator/mapping",
+        severity: "warning",
+        message: `Mapping for '${field}' uses column(s) ${missing.map(column => `'${column}'`).join(", ")} that the export does not have - the field was left out`,
+      });
+    }
+  }
+  if (!mapping.id && mapping.sku) {
+    mapping.id = mapping.sku;
+  }
+  const unmapped = CORE_FIELDS.filter(field => !mapping[field]);
+  if (unmapped.length > 0) {
+    findings.push({
+      ruleId: "feed-generator/mapping",
+      severity: "warning",
+      message: `No export column found for ${unmapped.join(", ")} - add them with the mapping parameter, e.g. {"${unmapped[0]}": "<column>"}`,
+    });
+  }
+  return mapping;
+}
+
+function orderFields(records: FeedRecord[]): string[] {
+  const present = new Set(records.flatMap(record => Object.keys(record)));
+  return [...FIELD_ORDER.filter(field => present.has(field)), ...[...present].filter(field => !FIELD_ORDER.includes(field))];
+}
+
+function writeDelimited(records: FeedRecord[], fields: string[], delimiter: string): string {
+  const quote = (value: string) => /["\r\n]/.test(value) || value.includes(delimiter) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+  return [fields, ...records.map(record => fields.map(field => record[field] ?? ""))]
+    .map(cells => cells.map(quote).join(delimiter))
+    .join("\n") + "\n";
+}
+
+// Convert a Shopify, BigCommerce, Magento or custom product export into a Searchspring feed file,
+// then run the feed validator over the result
+export function generateFeed(params: FeedGeneratorParams): FeedGeneratorOutput {
+  const input = resolve(params.input);
+  const extension = extname(input).toLowerCase();
+  if (!INPUT_EXTENSIONS.includes(extension)) {
+    throw new Error(`Unsupported export file ${params.input} - expected a .csv, .tsv, .txt or .json file`);
+  }
+  const output = resolve(params.output ?? join(dirname(input), `${basename(input, extname(input))}.searchspring.${params.format}`));
+  if (output === input) {
+    throw new Error("The output path is the export itself - choose another output file");
+  }
+  // Checked before anything is written, so a refused output leaves no file behind
+  const outputExtensions = OUTPUT_EXTENSIONS[params.format];
+  if (!outputExtensions.includes(extname(output).toLowerCase())) {
+    throw new Error(`Unsupported output file ${params.output} - a ${params.format} feed needs a ${outputExtensions.join(" or ")} file`);
+  }
+  if (!existsSync(dirname(output)) || !statSync(dirname(output)).isDirectory()) {
+    throw new Error(`Cannot write feed file ${output}: ${dirname(output)} is not a directory`);
+  }
+  if (existsSync(output) && !params.overwrite) {
+    throw new Error(`Feed file ${output} already exists - pass overwrite: true to replace it`);
+  }
+
+  let text: string;
+  try {
+    if (!statSync(input).isFile()) {
+      throw new Error("not a file");
+    }
+    text = readFileSync(input, "utf8").replace(/^\uFEFF/, "");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cannot read export file ${params.input}: ${message}`);
+  }
+
+  const findings: Finding[] = [];
+  if (text.includes("\uFFFD")) {
+    findings.push({ ruleId: "feed-generator/encoding", severity: "warning", message: "The export is not valid UTF-8 - re-export it as UTF-8 or accented characters will be garbled" });
+  }
+
+  const json = extension === ".json";
+  let rows: FeedRecord[] = [];
+  let jsonProducts: SourceProduct[] = [];
+  try {
+    if (json) {
+      jsonProducts = readJsonExport(text);
+      rows = jsonProducts.flatMap(product => [product.fields, ...product.variants.map(variant => variant.fields)]);
+    } else {
+      const [header = ""] = text.split(/\r?\n/, 1);
+      rows = readDelimitedExport(text, extension === ".csv" || !header.includes("\t") ? "," : "\t");
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not parse export file ${params.input}: ${message}`);
+  }
+  if (rows.length === 0) {
+    throw new Error(`Export file ${params.input} contains no products`);
+  }
+
+  const columns = new Set(rows.flatMap(row => Object.keys(row)));
+  const platform = params.platform ?? (json ? "custom" : detectPlatform(columns));
+  const profile = PLATFORM_PROFILES[platform];
+
+  if (params.groupBy && !columns.has(params.groupBy)) {
+    throw new Error(`groupBy column '${params.groupBy}' is not in the export`);
+  }
+  const { products, skippedRows } = json ? { products: jsonProducts, skippedRows: 0 } : profile.group(rows, params, findings);
+  // Magento additional_attributes become columns of their own
+  products.flatMap(product => [product.fields, ...product.variants.map(variant => variant.fields)])
+    .forEach(record => Object.keys(record).forEach(column => columns.add(column)));
+
+  const mapping = resolveMapping(profile, platform, columns, params.mapping ?? {}, findings);
+  const builder = new FeedBuilder(params, profile, mapping);
+  const records = params.variants === "each"
+    ? products.flatMap(product => builder.each(product))
+    : products.map(product => builder.parent(product));
+
+  const withoutId = records.filter(record => !record.id).length;
+  const written = records.filter(record => record.id);
+  if (withoutId > 0) {
+    findings.push({ ruleId: "feed-generator/missing-id", severity: "warning", message: `${withoutId} record(s) had no id or SKU and were left out` });
+  }
+  if (builder.badPrices.size > 0) {
+    findings.push({
+      ruleId: "feed-generator/price",
+      severity: "warning",
+      message: `Some prices are not numbers and were copied as-is: ${[...builder.badPrices].slice(0, 5).map(price => `'${price}'`).join(", ")}`,
+    });
+  }
+  if (builder.relativeUrls.size > 0) {
+    findings.push({
+      ruleId: "feed-generator/relative-url",
+      severity: "warning",
+      message: `${[...builder.relativeUrls].join(" and ")} values are relative paths - pass storeUrl (e.g. https://shop.example.com) to make them absolute`,
+    });
+  }
+
+  const fields = orderFields(written);
+  // wx still refuses a file created since the check above
+  writeFileSync(output, params.format === "json"
+    ? `${JSON.stringify(written.map(record => Object.fromEntries(fields.map(field => [field, record[field] ?? ""]))), null, 2)}\n`
+    : writeDelimited(written, fields, params.format === "tsv" ? "\t" : ","), { flag: params.overwrite ? "w" : "wx" });
+
+  const validation = validateFeedFile(output, params.format);
+
+  return {
+    input,
+    output,
+    platform,
+    platformDetected: params.platform === undefined,
+    format: params.format,
+    variants: params.variants,
+    mapping,
+    stats: {
+      sourceRows: rows.length,
+      products: products.length,
+      variants: products.reduce((total, product) => total + product.variants.length, 0),
+      records: written.length,
+      skippedRows: skippedRows + withoutId,
+    },
+    fields,
+    findings,
+    validation: { valid: validation.valid, findings: validation.findings },
+  };
+}
+
+export function describePlatform(platform: FeedSourcePlatform): string {
+  return PLATFORM_PROFILES[platform].label;
+}
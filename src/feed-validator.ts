@@ -0,0 +1,380 @@
+import { readFileSync, statSync } from "node:fs";
+import { extname, resolve } from "node:path";
+import { z } from "zod";
+import { FeedFormatSchema, FeedValidationOutputSchema } from "./schemas.js";
+
+export type FeedFormat = z.infer<typeof FeedFormatSchema>;
+
+export type FeedValidationOutput = z.infer<typeof FeedValidationOutputSchema>;
+
+type Finding = FeedValidationOutput["findings"][number];
+
+type CoreField = keyof FeedValidationOutput["coreFields"];
+
+export type FeedRecord = Record<string, string>;
+
+const FORMAT_EXTENSIONS: Record<string, FeedFormat> = {
+  ".csv": "csv",
+  ".tsv": "tsv",
+  ".txt": "tsv",
+  ".json": "json",
+  ".xml": "xml",
+};
+
+// Column names each core field is commonly exported under, in order of preference
+const CORE_FIELD_ALIASES: Record<CoreField, string[]> = {
+  sku: ["sku", "id", "uid", "product_id", "productid", "item_id", "variant_sku"],
+  name: ["name", "title", "product_name", "productname"],
+  price: ["price", "sale_price", "final_price", "variant_price"],
+  url: ["url", "link", "product_url", "producturl"],
+  image: ["image", "image_url", "imageurl", "image_link", "thumbnail", "thumbnail_url", "image_src"],
+};
+
+// Elements that wrap one product in XML feeds (Google Shopping uses <item>/<entry>)
+const XML_RECORD_ELEMENTS = ["product", "item", "entry", "record", "row"];
+
+const MAX_EXAMPLES = 5;
+
+// Windows-1252 text decoded as UTF-8 (Ã© for é, â€™ for ’)
+const MOJIBAKE_PATTERN = /Ã[\u0080-¿]|â€[\u0080-¿™œ“”˜¦]/;
+
+const CONTROL_CHARACTER_PATTERN = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/;
+
+// Prices may carry a currency symbol or thousands separators, but must be a non-negative number
+const PRICE_PATTERN = /^\s*[$€£¥]?\s*\d{1,3}(?:,?\d{3})*(?:\.\d+)?\s*$/;
+
+// The format from the file extension, or sniffed from the content for other extensions
+function detectFormat(path: string, text: string): FeedFormat | undefined {
+  const byExtension = FORMAT_EXTENSIONS[extname(path).toLowerCase()];
+  if (byExtension) {
+    return byExtension;
+  }
+  const start = text.trimStart();
+  if (start.startsWith("<")) return "xml";
+  if (start.startsWith("[") || start.startsWith("{")) return "json";
+  const [header = ""] = start.split(/\r?\n/, 1);
+  if (header.includes("\t")) return "tsv";
+  if (header.includes(",")) return "csv";
+  return undefined;
+}
+
+// RFC 4180 parsing: quoted fields may contain delimiters, doubled quotes and newlines
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error("unterminated quoted field at end of file");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines are not records
+  return rows.filter(cells => cells.length > 1 || cells[0] !== "");
+}
+
+function readDelimited(text: string, delimiter: string, findings: Finding[]): { fields: string[]; records: FeedRecord[] } {
+  const [header = [], ...rows] = parseDelimited(text, delimiter);
+  const fields = header.map(name => name.trim());
+  const misaligned: number[] = [];
+
+  const records = rows.map((cells, index) => {
+    if (cells.length !== fields.length) {
+      misaligned.push(index + 1);
+    }
+    return Object.fromEntries(fields.map((name, column) => [name, cells[column] ?? ""]));
+  });
+
+  if (misaligned.length > 0) {
+    findings.push({
+      ruleId: "feed/columns",
+      severity: "error",
+      message: `${misaligned.length} record(s) do not have ${fields.length} columns like the header (${describeRecords(misaligned)}) - check for unquoted ${delimiter === "\t" ? "tabs" : "commas"} or line breaks`,
+    });
+  }
+  return { fields, records };
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function readJson(text: string): { fields: string[]; records: FeedRecord[] } {
+  const data: unknown = JSON.parse(text);
+  // A top-level array, or the first array of objects under a wrapper such as {"products": [...]}
+  const list = Array.isArray(data)
+    ? data
+    : Object.values(typeof data === "object" && data !== null ? data : {}).find(Array.isArray);
+  if (!list) {
+    throw new Error("expected an array of products or an object wrapping one (e.g. {\"products\": [...]})");
+  }
+
+  const fields = new Set<string>();
+  const records = list.map(item => {
+    const entries = Object.entries(typeof item === "object" && item !== null ? item : {});
+    entries.forEach(([name]) => fields.add(name));
+    return Object.fromEntries(entries.map(([name, value]) => [name, toText(value)]));
+  });
+  return { fields: [...fields], records };
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal: string) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&(lt|gt|quot|apos|amp);/g, (_, name: string) => ({ lt: "<", gt: ">", quot: '"', apos: "'", amp: "&" })[name] ?? "");
+}
+
+function xmlText(content: string): string {
+  const cdata = content.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) {
+    return cdata[1] ?? "";
+  }
+  return decodeEntities(content.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1").replace(/<[^>]+>/g, "")).trim();
+}
+
+// Flat product records from <product>/<item>/<entry> elements; namespace prefixes such as g: are dropped
+function readXml(text: string): { fields: string[]; records: FeedRecord[] } {
+  const body = text.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/g, "");
+  const element = XML_RECORD_ELEMENTS.find(name => new RegExp(`<(?:[\\w.-]+:)?${name}[\\s>]`, "i").test(body));
+  if (!element) {
+    throw new Error(`no product records found - expected repeated <${XML_RECORD_ELEMENTS.join(">, <")}> elements`);
+  }
+
+  const recordPattern = new RegExp(`<((?:[\\w.-]+:)?${element})(?:\\s[^>]*)?>([\\s\\S]*?)</\\1\\s*>`, "gi");
+  const childPattern = /<([\w.-]+:)?([\w.-]+)(?:\s[^>]*)?(?:\/>|>([\s\S]*?)<\/\1?\2\s*>)/g;
+  const fields = new Set<string>();
+  const records: FeedRecord[] = [];
+
+  for (const [, , content = ""] of body.matchAll(recordPattern)) {
+    const record: FeedRecord = {};
+    for (const [, , name = "", value = ""] of content.matchAll(childPattern)) {
+      // Repeated elements such as additional_image_link keep their first value
+      if (!(name in record)) {
+        record[name] = xmlText(value);
+        fields.add(name);
+      }
+    }
+    records.push(record);
+  }
+  return { fields: [...fields], records };
+}
+
+function describeRecords(records: number[]): string {
+  const shown = records.slice(0, MAX_EXAMPLES).join(", ");
+  const more = records.length - MAX_EXAMPLES;
+  return `record${records.length === 1 ? "" : "s"} ${shown}${more > 0 ? ` and ${more} more` : ""}`;
+}
+
+function findCoreField(fields: string[], field: CoreField): string | undefined {
+  const normalized = new Map(fields.map(name => [name.toLowerCase().replace(/[\s-]/g, "_"), name]));
+  for (const alias of CORE_FIELD_ALIASES[field]) {
+    const name = normalized.get(alias);
+    if (name !== undefined) {
+      return name;
+    }
+  }
+  return undefined;
+}
+
+function isAbsoluteUrl(value: string): boolean {
+  try {
+    const url = new URL(value.trim());
+    return (url.protocol === "http:" || url.protocol === "https:") && !/\s/.test(value.trim());
+  } catch {
+    return false;
+  }
+}
+
+// Decode the file as UTF-8, reporting byte order marks and invalid byte sequences
+function decodeFeed(buffer: Buffer, findings: Finding[]): string {
+  if ((buffer[0] === 0xff && buffer[1] === 0xfe) || (buffer[0] === 0xfe && buffer[1] === 0xff)) {
+    findings.push({ ruleId: "feed/encoding", severity: "error", message: "File is UTF-16 encoded - export or re-save it as UTF-8" });
+    return new TextDecoder(buffer[0] === 0xff ? "utf-16le" : "utf-16be").decode(buffer);
+  }
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    findings.push({ ruleId: "feed/encoding", severity: "warning", message: "File starts with a UTF-8 byte order mark - it can end up in the first column name; save as UTF-8 without BOM" });
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true, ignoreBOM: false }).decode(buffer);
+  } catch {
+    findings.push({
+      ruleId: "feed/encoding",
+      severity: "error",
+      message: "File is not valid UTF-8 (often Windows-1252 or Latin-1 from a spreadsheet export) - accented characters will be garbled; re-save it as UTF-8",
+    });
+    return new TextDecoder("utf-8").decode(buffer);
+  }
+}
+
+function checkCoreFields(fields: string[], records: FeedRecord[], findings: Finding[]): FeedValidationOutput["coreFields"] {
+  const coreFields = {} as FeedValidationOutput["coreFields"];
+
+  for (const field of Object.keys(CORE_FIELD_ALIASES) as CoreField[]) {
+    const column = findCoreField(fields, field);
+    coreFields[field] = column ?? null;
+    if (column === undefined) {
+      findings.push({
+        ruleId: "feed/missing-field",
+        severity: "error",
+        message: `No ${field} column - expected one of: ${CORE_FIELD_ALIASES[field].join(", ")}`,
+      });
+      continue;
+    }
+
+    const empty = records.flatMap((record, index) => (record[column] ?? "").trim() === "" ? [index + 1] : []);
+    if (empty.length > 0) {
+      findings.push({ ruleId: "feed/empty-value", severity: "error", message: `${empty.length} record(s) have no ${field} ('${column}'): ${describeRecords(empty)}` });
+    }
+  }
+  return coreFields;
+}
+
+function checkValues(coreFields: FeedValidationOutput["coreFields"], records: FeedRecord[], findings: Finding[]) {
+  if (coreFields.sku) {
+    const seen = new Map<string, number[]>();
+    records.forEach((record, index) => {
+      const sku = (record[coreFields.sku!] ?? "").trim();
+      if (sku) seen.set(sku, [...(seen.get(sku) ?? []), index + 1]);
+    });
+    const duplicates = [...seen].filter(([, at]) => at.length > 1);
+    if (duplicates.length > 0) {
+      const examples = duplicates.slice(0, MAX_EXAMPLES).map(([sku, at]) => `'${sku}' (${describeRecords(at)})`);
+      findings.push({
+        ruleId: "feed/duplicate-sku",
+        severity: "error",
+        message: `${duplicates.length} SKU(s) appear more than once - only one record per SKU is indexed: ${examples.join("; ")}${duplicates.length > MAX_EXAMPLES ? "; ..." : ""}`,
+      });
+    }
+  }
+
+  if (coreFields.price) {
+    const invalid = records.flatMap((record, index) => {
+      const price = (record[coreFields.price!] ?? "").trim();
+      return price !== "" && !PRICE_PATTERN.test(price) ? [index + 1] : [];
+    });
+    if (invalid.length > 0) {
+      findings.push({ ruleId: "feed/price", severity: "error", message: `${invalid.length} record(s) have a price that is not a non-negative number: ${describeRecords(invalid)}` });
+    }
+    const decorated = records.some(record => /[$€£¥,]/.test(record[coreFields.price!] ?? ""));
+    if (decorated) {
+      findings.push({ ruleId: "feed/price", severity: "warning", message: "Prices contain currency symbols or thousands separators - send plain decimals (19.99) so price sorting and range facets work" });
+    }
+  }
+
+  for (const field of ["url", "image"] as const) {
+    const column = coreFields[field];
+    if (!column) continue;
+    const invalid = records.flatMap((record, index) => {
+      const value = (record[column] ?? "").trim();
+      return value !== "" && !isAbsoluteUrl(value) ? [index + 1] : [];
+    });
+    if (invalid.length > 0) {
+      findings.push({ ruleId: "feed/url", severity: "error", message: `${invalid.length} record(s) have a ${field} that is not an absolute http(s) URL: ${describeRecords(invalid)}` });
+    }
+  }
+
+  const garbled = records.flatMap((record, index) => Object.values(record).some(value => MOJIBAKE_PATTERN.test(value)) ? [index + 1] : []);
+  if (garbled.length > 0) {
+    findings.push({ ruleId: "feed/encoding", severity: "warning", message: `${garbled.length} record(s) contain garbled characters such as 'Ã©' (text that was double-encoded): ${describeRecords(garbled)}` });
+  }
+  const control = records.flatMap((record, index) => Object.values(record).some(value => CONTROL_CHARACTER_PATTERN.test(value)) ? [index + 1] : []);
+  if (control.length > 0) {
+    findings.push({ ruleId: "feed/encoding", severity: "warning", message: `${control.length} record(s) contain control characters: ${describeRecords(control)}` });
+  }
+}
+
+// Validate a local CSV, TSV, JSON or XML product feed before uploading it for bulk indexing
+export function validateFeedFile(path: string, format?: FeedFormat): FeedValidationOutput {
+  const absolutePath = resolve(path);
+
+  let buffer: Buffer;
+  try {
+    if (!statSync(absolutePath).isFile()) {
+      throw new Error("not a file");
+    }
+    buffer = readFileSync(absolutePath);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cannot read feed file ${path}: ${message}`);
+  }
+
+  const findings: Finding[] = [];
+  const text = decodeFeed(buffer, findings).replace(/^\uFEFF/, "");
+  const feedFormat = format ?? detectFormat(absolutePath, text);
+  if (!feedFormat) {
+    throw new Error(`Unsupported feed file ${path} - expected a .csv, .tsv, .txt, .json or .xml file, or pass format`);
+  }
+
+  let fields: string[] = [];
+  let records: FeedRecord[] = [];
+  try {
+    ({ fields, records } = feedFormat === "json"
+      ? readJson(text)
+      : feedFormat === "xml"
+        ? readXml(text)
+        : readDelimited(text, feedFormat === "tsv" ? "\t" : ",", findings));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    findings.push({ ruleId: "feed/parse", severity: "error", message: `Could not parse the file as ${feedFormat.toUpperCase()}: ${message}` });
+  }
+
+  if (records.length === 0 && !findings.some(finding => finding.ruleId === "feed/parse")) {
+    findings.push({ ruleId: "feed/empty", severity: "error", message: "The feed contains no product records" });
+  }
+
+  // Field checks only make sense once there are records to check
+  const coreFields = records.length > 0
+    ? checkCoreFields(fields, records, findings)
+    : Object.fromEntries(Object.keys(CORE_FIELD_ALIASES).map(field => [field, null])) as FeedValidationOutput["coreFields"];
+  checkValues(coreFields, records, findings);
+
+  const emptyFields = fields.filter(field => records.length > 0 && records.every(record => (record[field] ?? "").trim() === ""));
+
+  return {
+    path: absolutePath,
+    format: feedFormat,
+    valid: !findings.some(finding => finding.severity === "error"),
+    stats: {
+      bytes: buffer.length,
+      records: records.length,
+      fields: fields.length,
+      emptyFields,
+      uniqueSkus: coreFields.sku ? new Set(records.map(record => (record[coreFields.sku!] ?? "").trim()).filter(Boolean)).size : 0,
+    },
+    coreFields,
+    fields,
+    findings,
+  };
+}
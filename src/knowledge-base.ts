@@ -0,0 +1,215 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { basename, extname, join, relative, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { API_ENDPOINTS } from "./endpoints.js";
+import { ApiNameSchema } from "./schemas.js";
+import { findPartialReferences } from "./template-engine.js";
+
+// Content lives in <repo>/content, next to both src/ and dist/
+export const DEFAULT_CONTENT_DIR = fileURLToPath(new URL("../content/", import.meta.url));
+
+// templates/_partials holds the partials templates include with [[> name]]
+const PARTIALS_DIR = "_partials";
+
+const ManifestSchema = z.object({
+  version: z.string().min(1),
+});
+
+const ApiGuideContentSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().min(1),
+  example: z.string().min(1),
+  useCases: z.array(z.string()).min(1),
+  bestPractices: z.array(z.string()).min(1),
+});
+
+const ParameterGuideContentSchema = z.object({
+  // Registry spellings that resolve to this guide (e.g. "filter.*" for filters)
+  aliases: z.array(z.string()).default([]),
+  description: z.string().min(1),
+  type: z.string().min(1),
+  example: z.string().min(1),
+  bestPractices: z.array(z.string()),
+  useCases: z.array(z.string()),
+  relatedParams: z.array(z.string()),
+});
+
+const ParameterGuideFileSchema = z.record(ParameterGuideContentSchema);
+
+const TroubleshootingTopicSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  triggers: z.array(z.array(z.string().min(1)).min(1)).min(1),
+  items: z.array(z.string()).min(1),
+});
+
+export type ApiGuideContent = z.infer<typeof ApiGuideContentSchema>;
+export type ParameterGuideContent = z.infer<typeof ParameterGuideContentSchema>;
+export type TroubleshootingTopic = z.infer<typeof TroubleshootingTopicSchema>;
+
+export interface KnowledgeBase {
+  version: string;
+  guides: Record<string, ApiGuideContent>;
+  // api -> parameter -> guide
+  parameters: Record<string, Record<string, ParameterGuideContent>>;
+  // api -> platform -> template
+  templates: Record<string, Record<string, string>>;
+  // platform -> eventType -> template
+  tracking: Record<string, Record<string, string>>;
+  // name -> partial shared by templates and tracking templates
+  partials: Record<string, string>;
+  // extension -> file path within the extension -> template
+  extensions: Record<string, Record<string, string>>;
+  troubleshooting: TroubleshootingTopic[];
+}
+
+function parseFile<T extends z.ZodTypeAny>(path: string, schema: T): z.infer<T> {
+  let data: unknown;
+  try {
+    data = parseYaml(readFileSync(path, "utf8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid knowledge base file ${path}: ${message}`);
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.errors.map(err => `- ${err.path.join(".") || "(root)"}: ${err.message}`);
+    throw new Error(`Invalid knowledge base file ${path}:\n${issues.join("\n")}`);
+  }
+  return result.data;
+}
+
+// File name without extension -> file path, for every file in a directory
+function listFiles(dir: string): [string, string][] {
+  return readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isFile())
+    .map(entry => [basename(entry.name, extname(entry.name)), join(dir, entry.name)]);
+}
+
+function readTemplates(dir: string): Record<string, string> {
+  return Object.fromEntries(listFiles(dir).map(([name, path]) => [name, readFileSync(path, "utf8").replace(/\n$/, "")]));
+}
+
+// Two-level template tree: dir/<group>/<name>.<ext>
+function loadTemplateTree(dir: string): Record<string, Record<string, string>> {
+  const tree: Record<string, Record<string, string>> = {};
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (!entry.isDirectory() || entry.name === PARTIALS_DIR) continue;
+    tree[entry.name] = readTemplates(join(dir, entry.name));
+  }
+  return tree;
+}
+
+// Every file under dir keyed by its /-separated path, for extensions generated as a whole directory
+function readExtensionFiles(dir: string, root = dir): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      Object.assign(files, readExtensionFiles(path, root));
+    } else if (entry.isFile()) {
+      files[relative(root, path).split(sep).join("/")] = readFileSync(path, "utf8");
+    }
+  }
+  return files;
+}
+
+const cache = new Map<string, KnowledgeBase>();
+
+// Load and validate guides, parameter guides and code templates from disk
+export function loadKnowledgeBase(dir: string = DEFAULT_CONTENT_DIR): KnowledgeBase {
+  const cached = cache.get(dir);
+  if (cached) {
+    return cached;
+  }
+
+  const { version } = parseFile(join(dir, "manifest.yaml"), ManifestSchema);
+
+  const guides: KnowledgeBase["guides"] = {};
+  for (const [api, path] of listFiles(join(dir, "guides"))) {
+    if (!ApiNameSchema.safeParse(api).success) {
+      throw new Error(`Invalid knowledge base file ${path}: unknown API '${api}'`);
+    }
+    guides[api] = parseFile(path, ApiGuideContentSchema);
+  }
+  const missing = ApiNameSchema.options.filter(api => !guides[api]);
+  if (missing.length > 0) {
+    throw new Error(`Knowledge base in ${dir} is missing guides for: ${missing.join(", ")}`);
+  }
+
+  const parameters: KnowledgeBase["parameters"] = {};
+  for (const [api, path] of listFiles(join(dir, "parameters"))) {
+    parameters[api] = parseFile(path, ParameterGuideFileSchema);
+  }
+
+  const undocumented = findUndocumentedParameters(parameters);
+  if (undocumented.length > 0) {
+    throw new Error(`Knowledge base in ${dir} is missing parameter guides for: ${undocumented.join(", ")}`);
+  }
+
+  const templates = loadTemplateTree(join(dir, "templates"));
+  const tracking = loadTemplateTree(join(dir, "tracking"));
+  const partials = existsSync(join(dir, "templates", PARTIALS_DIR)) ? readTemplates(join(dir, "templates", PARTIALS_DIR)) : {};
+  const extensionsDir = join(dir, "extensions");
+  const extensions = existsSync(extensionsDir)
+    ? Object.fromEntries(readdirSync(extensionsDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => [entry.name, readExtensionFiles(join(extensionsDir, entry.name))]))
+    : {};
+  const unknownPartials = findUnknownPartials({ templates, tracking, partials });
+  if (unknownPartials.length > 0) {
+    throw new Error(`Knowledge base in ${dir} includes missing partials: ${unknownPartials.join(", ")}`);
+  }
+
+  const knowledgeBase: KnowledgeBase = {
+    version,
+    guides,
+    parameters,
+    templates,
+    tracking,
+    partials,
+    extensions,
+    troubleshooting: parseFile(join(dir, "troubleshooting.yaml"), z.array(TroubleshootingTopicSchema)),
+  };
+  cache.set(dir, knowledgeBase);
+  return knowledgeBase;
+}
+
+// The guide for a parameter name or one of its aliases. Registry names with a
+// fixed value ("resultsPerPage=0") resolve to the guide for the bare name.
+export function findParameterGuide(
+  guides: Record<string, ParameterGuideContent>,
+  parameter: string
+): [string, ParameterGuideContent] | undefined {
+  const name = parameter.replace(/=.*$/, "");
+  const guide = guides[name];
+  if (guide) {
+    return [name, guide];
+  }
+  return Object.entries(guides).find(([, candidate]) => candidate.aliases.includes(parameter));
+}
+
+// Every api/parameter listed in the endpoint registry that has no parameter guide
+export function findUndocumentedParameters(parameters: KnowledgeBase["parameters"]): string[] {
+  return ApiNameSchema.options.flatMap(api => {
+    const endpoint = API_ENDPOINTS[api];
+    return [...endpoint.requiredParams, ...endpoint.optionalParams]
+      .filter(param => !findParameterGuide(parameters[api] ?? {}, param))
+      .map(param => `${api}/${param}`);
+  });
+}
+
+// Every [[> name]] in a template, tracking template or partial that names no partial, as "<file>: name"
+export function findUnknownPartials({ templates, tracking, partials }: Pick<KnowledgeBase, "templates" | "tracking" | "partials">): string[] {
+  const files = [
+    ...Object.entries(templates).flatMap(([api, byPlatform]) => Object.entries(byPlatform).map(([platform, template]) => [`templates/${api}/${platform}`, template] as const)),
+    ...Object.entries(tracking).flatMap(([platform, byEvent]) => Object.entries(byEvent).map(([eventType, template]) => [`tracking/${platform}/${eventType}`, template] as const)),
+    ...Object.entries(partials).map(([name, template]) => [`templates/${PARTIALS_DIR}/${name}`, template] as const),
+  ];
+  return files.flatMap(([file, template]) => findPartialReferences(template)
+    .filter(name => partials[name] === undefined)
+    .map(name => `${file}: ${name}`));
+}
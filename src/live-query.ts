@@ -0,0 +1,152 @@
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { API_ENDPOINTS } from "./endpoints.js";
+import { buildRequest, requestUrl } from "./request-builder.js";
+import { LiveAutocompleteParamsSchema, LiveQueryOutputSchema, LiveSearchParamsSchema } from "./schemas.js";
+
+export type LiveSearchParams = z.infer<typeof LiveSearchParamsSchema>;
+
+export type LiveAutocompleteParams = z.infer<typeof LiveAutocompleteParamsSchema>;
+
+export type LiveQueryOutput = z.infer<typeof LiveQueryOutputSchema>;
+
+export interface LiveQueryOptions {
+  siteId: string;
+  timeout: number;
+  baseUrl?: string | undefined;
+}
+
+// Tracking values for live queries, so they are recognisable in Searchspring analytics
+const LIVE_QUERY_TRACKING = {
+  userId: "searchspring-mcp",
+  sessionId: "searchspring-mcp",
+  domain: "https://searchspring-mcp.local/",
+};
+
+const MAX_FACET_VALUES = 10;
+
+// Numbers arrive as strings for some catalogs
+const NumberLike = z.union([z.number(), z.string()]).transform(Number).pipe(z.number());
+
+// The parts of a search.json / autocomplete.json response the summary reads; everything else is ignored
+const LiveResponseSchema = z.object({
+  pagination: z.object({
+    totalResults: NumberLike.default(0),
+    currentPage: NumberLike.default(1),
+    totalPages: NumberLike.default(0),
+    perPage: NumberLike.default(0),
+  }).default({}),
+  results: z.array(z.object({
+    id: z.union([z.string(), z.number()]).transform(String),
+    name: z.string().optional(),
+    sku: z.string().optional(),
+    brand: z.string().optional(),
+    price: NumberLike.optional().catch(undefined),
+    url: z.string().optional(),
+  })).default([]),
+  facets: z.array(z.object({
+    field: z.string(),
+    label: z.string().optional(),
+    type: z.string().default("value"),
+    facet_active: z.union([z.number(), z.boolean()]).optional(),
+    values: z.array(z.object({
+      label: z.string().optional(),
+      value: z.union([z.string(), z.number()]).optional(),
+      count: NumberLike.default(0),
+      active: z.boolean().default(false),
+    })).default([]),
+    range: z.tuple([NumberLike, NumberLike]).optional().catch(undefined),
+  })).default([]),
+  filterSummary: z.array(z.object({ label: z.string() })).default([]),
+  merchandising: z.object({
+    redirect: z.string().default(""),
+    content: z.record(z.array(z.unknown())).default({}),
+    campaigns: z.array(z.object({
+      id: z.union([z.string(), z.number()]).transform(String),
+      title: z.string().default(""),
+    })).default([]),
+  }).default({}),
+  query: z.object({ original: z.string().optional(), corrected: z.string().optional() }).default({}),
+});
+
+function summarize(data: z.infer<typeof LiveResponseSchema>, limit: number) {
+  return {
+    query: {
+      ...(data.query.original ? { original: data.query.original } : {}),
+      ...(data.query.corrected ? { corrected: data.query.corrected } : {}),
+    },
+    pagination: data.pagination,
+    results: data.results.slice(0, limit).map(result => ({
+      id: result.id,
+      ...(result.name !== undefined ? { name: result.name } : {}),
+      ...(result.sku !== undefined ? { sku: result.sku } : {}),
+      ...(result.brand !== undefined ? { brand: result.brand } : {}),
+      ...(result.price !== undefined ? { price: result.price } : {}),
+      ...(result.url !== undefined ? { url: result.url } : {}),
+    })),
+    facets: data.facets.map(facet => ({
+      field: facet.field,
+      label: facet.label ?? facet.field,
+      type: facet.type,
+      active: Boolean(facet.facet_active) || facet.values.some(value => value.active),
+      values: facet.values.slice(0, MAX_FACET_VALUES).map(value => ({
+        label: value.label ?? String(value.value ?? ""),
+        count: value.count,
+        active: value.active,
+      })),
+      ...(facet.range ? { range: facet.range } : {}),
+    })),
+    appliedFilters: data.filterSummary.map(filter => filter.label),
+    merchandising: {
+      ...(data.merchandising.redirect ? { redirect: data.merchandising.redirect } : {}),
+      campaigns: data.merchandising.campaigns,
+      contentZones: Object.entries(data.merchandising.content)
+        .filter(([, items]) => items.length > 0)
+        .map(([zone]) => zone),
+    },
+  } satisfies Omit<LiveQueryOutput, "api" | "url" | "status" | "durationMs">;
+}
+
+// Send a search or autocomplete request to the Searchspring API (or baseUrl) and summarize the response
+export async function runLiveQuery(
+  api: LiveQueryOutput["api"],
+  params: LiveSearchParams,
+  options: LiveQueryOptions
+): Promise<LiveQueryOutput> {
+  const { limit, redirectResponse, ...request } = params;
+  const built = buildRequest({
+    ...request,
+    api,
+    tracking: { ...LIVE_QUERY_TRACKING, pageLoadId: randomUUID() },
+    ...(redirectResponse ? { params: { redirectResponse } } : {}),
+  }, options.siteId);
+  const url = requestUrl(built.url, options.baseUrl);
+  const endpointName = API_ENDPOINTS[api].name;
+
+  const started = Date.now();
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: AbortSignal.timeout(options.timeout) });
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      throw new Error(`${endpointName} request timed out after ${options.timeout}ms: ${url}`);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${endpointName} request to ${url} failed: ${message}`);
+  }
+  const durationMs = Date.now() - started;
+
+  if (!response.ok) {
+    const body = (await response.text()).slice(0, 200);
+    throw new Error(`${endpointName} request failed with HTTP ${response.status}: ${body || response.statusText}`);
+  }
+
+  const result = LiveResponseSchema.safeParse(await response.json().catch(() => undefined));
+  if (!result.success) {
+    const issues = result.error.errors.map(err => `${err.path.join(".") || "(root)"}: ${err.message}`);
+    throw new Error(`Unexpected ${endpointName} response from ${url}: ${issues.slice(0, 3).join("; ")}`);
+  }
+
+  return { api, url, status: response.status, durationMs, ...summarize(result.data, limit) };
+}
+
@@ -0,0 +1,426 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+
+// Sample catalog served by the mock API server
+export const DEFAULT_CATALOG_PATH = fileURLToPath(new URL("../fixtures/catalog.json", import.meta.url));
+
+const MockProductSchema = z.object({
+  id: z.string().min(1),
+  sku: z.string().min(1),
+  name: z.string().min(1),
+  brand: z.string(),
+  category: z.string(),
+  color: z.string(),
+  price: z.number(),
+  msrp: z.number(),
+  rating: z.number(),
+  popularity: z.number(),
+  description: z.string(),
+  url: z.string(),
+  imageUrl: z.string(),
+});
+
+const MockCatalogSchema = z.object({
+  products: z.array(MockProductSchema).min(1),
+  facets: z.array(z.object({
+    field: z.string().min(1),
+    label: z.string().min(1),
+    type: z.enum(["value", "range"]),
+  })),
+  sortOptions: z.array(z.object({
+    field: z.string().min(1),
+    direction: z.enum(["asc", "desc"]),
+    label: z.string().min(1),
+  })),
+  // query -> URL
+  redirects: z.record(z.string()),
+  trending: z.array(z.string()),
+  // Merchandising campaigns triggered by exact queries
+  campaigns: z.array(z.object({
+    id: z.string().min(1),
+    title: z.string().min(1),
+    queries: z.array(z.string()).min(1),
+    // Product IDs pinned to the top of matching results, in order
+    pinned: z.array(z.string()).default([]),
+    // HTML for the header content zone
+    banner: z.string().optional(),
+  })).default([]),
+});
+
+export type MockProduct = z.infer<typeof MockProductSchema>;
+export type MockCatalog = z.infer<typeof MockCatalogSchema>;
+
+export function loadMockCatalog(path: string = DEFAULT_CATALOG_PATH): MockCatalog {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid mock catalog ${path}: ${message}`);
+  }
+
+  const result = MockCatalogSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.errors.map(err => `- ${err.path.join(".") || "(root)"}: ${err.message}`);
+    throw new Error(`Invalid mock catalog ${path}:\n${issues.join("\n")}`);
+  }
+  return result.data;
+}
+
+type Query = URLSearchParams;
+
+interface Filter {
+  field: string;
+  values: string[];
+  low?: number | undefined;
+  high?: number | undefined;
+  background: boolean;
+}
+
+const DEFAULT_PER_PAGE = { search: 24, autocomplete: 6 };
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function singular(word: string): string {
+  return word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word;
+}
+
+function fieldValue(product: MockProduct, field: string): unknown {
+  return (product as Record<string, unknown>)[field];
+}
+
+function toNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+  const number = Number(value);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+// filter.{field}=value (repeatable, OR'ed), filter.{field}.low / .high for ranges; bgfilter.* likewise
+function parseFilters(query: Query): Filter[] {
+  const filters = new Map<string, Filter>();
+  for (const [name, value] of query) {
+    const match = name.match(/^(bg)?filter\.([^.]+)(?:\.(low|high))?$/);
+    if (!match) continue;
+    const [, background, field = "", bound] = match;
+    const key = `${background ?? ""}${field}`;
+    const filter = filters.get(key) ?? { field, values: [], background: Boolean(background) };
+    if (bound === "low") filter.low = toNumber(value);
+    else if (bound === "high") filter.high = toNumber(value);
+    else filter.values.push(value);
+    filters.set(key, filter);
+  }
+  return [...filters.values()];
+}
+
+function matchesFilter(product: MockProduct, filter: Filter): boolean {
+  const value = fieldValue(product, filter.field);
+  if (filter.values.length > 0 && !filter.values.some(expected => String(value).toLowerCase() === expected.toLowerCase())) {
+    return false;
+  }
+  if (typeof value === "number") {
+    if (filter.low !== undefined && value < filter.low) return false;
+    if (filter.high !== undefined && value > filter.high) return false;
+  }
+  return true;
+}
+
+function matchesQuery(product: MockProduct, terms: string[]): boolean {
+  const haystack = words(`${product.name} ${product.brand} ${product.category} ${product.color} ${product.description}`).map(singular);
+  return terms.every(term => haystack.some(word => word.startsWith(term)));
+}
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0]!;
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j]!;
+      row[j] = Math.min(row[j]! + 1, row[j - 1]! + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length]!;
+}
+
+// Replace each unknown word with the closest catalog word (within two edits)
+export function correctQuery(catalog: MockCatalog, query: string): string | undefined {
+  const vocabulary = [...new Set(catalog.products.flatMap(product => words(`${product.name} ${product.brand} ${product.category} ${product.color}`)))];
+  let changed = false;
+  const corrected = words(query).map(word => {
+    if (vocabulary.some(known => known.startsWith(word))) return word;
+    const best = vocabulary
+      .map(known => ({ known, distance: levenshtein(word, known) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+    if (best && best.distance <= 2) {
+      changed = true;
+      return best.known;
+    }
+    return word;
+  });
+  return changed ? corrected.join(" ") : undefined;
+}
+
+function findProducts(catalog: MockCatalog, query: string | undefined, filters: Filter[]): MockProduct[] {
+  const terms = query ? words(query).map(singular) : [];
+  return catalog.products.filter(product =>
+    matchesQuery(product, terms) && filters.every(filter => matchesFilter(product, filter))
+  );
+}
+
+function sortProducts(products: MockProduct[], query: Query): MockProduct[] {
+  const sort = [...query].find(([name]) => name.startsWith("sort."));
+  if (!sort) {
+    return products;
+  }
+  const field = sort[0].slice("sort.".length);
+  const direction = sort[1].toLowerCase() === "desc" ? -1 : 1;
+  return [...products].sort((a, b) => {
+    const left = fieldValue(a, field);
+    const right = fieldValue(b, field);
+    if (typeof left === "number" && typeof right === "number") return (left - right) * direction;
+    return String(left).localeCompare(String(right)) * direction;
+  });
+}
+
+// Pinned products that matched move to the top, in campaign order
+function pinProducts(products: MockProduct[], pinned: string[]): MockProduct[] {
+  const top = pinned
+    .map(id => products.find(product => product.id === id))
+    .filter((product): product is MockProduct => product !== undefined);
+  return [...top, ...products.filter(product => !top.includes(product))];
+}
+
+// Stand-ins for the opaque click attribution values the Search API returns with each result
+function intellisuggestFields(product: MockProduct) {
+  const intellisuggestData = Buffer.from(JSON.stringify({ id: product.id, sku: product.sku })).toString("base64url");
+  return { intellisuggestData, intellisuggestSignature: createHash("sha256").update(intellisuggestData).digest("hex").slice(0, 32) };
+}
+
+function toResult(product: MockProduct) {
+  return {
+    id: product.id,
+    uid: product.id,
+    sku: product.sku,
+    name: product.name,
+    brand: product.brand,
+    category: product.category,
+    color: product.color,
+    price: product.price,
+    msrp: product.msrp,
+    rating: product.rating,
+    popularity: product.popularity,
+    url: product.url,
+    imageUrl: product.imageUrl,
+    thumbnailImageUrl: product.imageUrl,
+    ...intellisuggestFields(product),
+  };
+}
+
+// Facet counts for each field ignore that field's own filter, so multi-select facets keep their options
+function buildFacets(catalog: MockCatalog, query: string | undefined, filters: Filter[]) {
+  return catalog.facets.map(facet => {
+    const own = filters.find(filter => filter.field === facet.field && !filter.background);
+    const others = filters.filter(filter => filter !== own);
+    const products = findProducts(catalog, query, others);
+
+    if (facet.type === "range") {
+      const values = products.map(product => fieldValue(product, facet.field)).filter((value): value is number => typeof value === "number");
+      return {
+        field: facet.field,
+        label: facet.label,
+        type: "range",
+        multiple: "single",
+        collapse: 0,
+        facet_active: own ? 1 : 0,
+        step: 1,
+        range: values.length > 0 ? [Math.floor(Math.min(...values)), Math.ceil(Math.max(...values))] : [0, 0],
+        ...(own ? { active: [own.low ?? null, own.high ?? null] } : {}),
+      };
+    }
+
+    const counts = new Map<string, number>();
+    for (const product of products) {
+      const value = String(fieldValue(product, facet.field));
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    return {
+      field: facet.field,
+      label: facet.label,
+      type: "value",
+      multiple: "or",
+      collapse: 0,
+      facet_active: own ? 1 : 0,
+      values: [...counts]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([value, count]) => ({
+          active: Boolean(own?.values.some(selected => selected.toLowerCase() === value.toLowerCase())),
+          type: "value",
+          value,
+          label: value,
+          count,
+        })),
+    };
+  });
+}
+
+function buildFilterSummary(catalog: MockCatalog, filters: Filter[]) {
+  return filters
+    .filter(filter => !filter.background)
+    .flatMap(filter => {
+      const label = catalog.facets.find(facet => facet.field === filter.field)?.label ?? filter.field;
+      const values = filter.values.length > 0 ? filter.values : [`${filter.low ?? "*"} - ${filter.high ?? "*"}`];
+      return values.map(value => ({ field: filter.field, value, label: `${label}: ${value}`, filterLabel: label, filterValue: value }));
+    });
+}
+
+// search.json / autocomplete.json response for a query string
+export function searchResponse(catalog: MockCatalog, query: Query, mode: "search" | "autocomplete") {
+  const original = query.get("q")?.trim() || undefined;
+  const filters = parseFilters(query);
+  const redirect = original ? catalog.redirects[original.toLowerCase()] ?? "" : "";
+
+  let effectiveQuery = original;
+  let products = findProducts(catalog, original, filters);
+  let corrected: string | undefined;
+  if (original && products.length === 0) {
+    corrected = correctQuery(catalog, original);
+    if (corrected) {
+      effectiveQuery = corrected;
+      products = findProducts(catalog, corrected, filters);
+    }
+  }
+  if (redirect && query.get("redirectResponse") !== "full") {
+    products = [];
+  }
+
+  const campaign = effectiveQuery
+    ? catalog.campaigns.find(candidate => candidate.queries.some(trigger => trigger.toLowerCase() === effectiveQuery.toLowerCase()))
+    : undefined;
+  const sorted = pinProducts(sortProducts(products, query), campaign?.pinned ?? []);
+  const perPage = toNumber(query.get("resultsPerPage")) ?? DEFAULT_PER_PAGE[mode];
+  const totalPages = perPage > 0 ? Math.max(1, Math.ceil(sorted.length / perPage)) : 0;
+  const currentPage = Math.min(Math.max(1, toNumber(query.get("page")) ?? 1), Math.max(1, totalPages));
+  const begin = (currentPage - 1) * perPage;
+  const page = perPage > 0 ? sorted.slice(begin, begin + perPage) : [];
+
+  return {
+    pagination: {
+      totalResults: sorted.length,
+      begin: page.length > 0 ? begin + 1 : 0,
+      end: begin + page.length,
+      currentPage,
+      totalPages,
+      previousPage: currentPage > 1 ? currentPage - 1 : 0,
+      nextPage: currentPage < totalPages ? currentPage + 1 : 0,
+      perPage,
+      defaultPerPage: DEFAULT_PER_PAGE[mode],
+    },
+    results: page.map(toResult),
+    facets: redirect && query.get("redirectResponse") !== "full" ? [] : buildFacets(catalog, effectiveQuery, filters),
+    filterSummary: buildFilterSummary(catalog, filters),
+    sorting: { options: catalog.sortOptions.map(option => ({ ...option, type: "field" })) },
+    merchandising: {
+      redirect,
+      content: campaign?.banner ? { header: [campaign.banner] } : {},
+      campaigns: campaign ? [{ id: campaign.id, title: campaign.title, type: "merchandising" }] : [],
+    },
+    ...(original ? { query: { original, ...(corrected ? { corrected } : {}) } } : {}),
+    ...(mode === "autocomplete" ? { autocomplete: { query: original ?? "", ...(corrected ? { correctedQuery: corrected } : {}) } } : {}),
+  };
+}
+
+// Suggest API response: a completed or corrected term plus alternatives
+export function suggestResponse(catalog: MockCatalog, query: Query) {
+  const original = (query.get("q") ?? "").trim().toLowerCase();
+  const count = toNumber(query.get("suggestionCount")) ?? 4;
+  const corrected = correctQuery(catalog, original);
+  const base = corrected ?? original;
+
+  const phrases = [...new Set([...catalog.trending, ...catalog.products.map(product => product.name.toLowerCase())])];
+  const matches = base ? phrases.filter(phrase => phrase.includes(base)) : [];
+  const [suggested, ...alternatives] = matches;
+
+  return {
+    query: original,
+    ...(suggested ? { suggested: { text: suggested, type: corrected ? "corrected" : "completed", source: "catalog" } } : {}),
+    alternatives: alternatives.slice(0, Math.max(0, count - 1)).map((text, index) => ({ text, popularity: alternatives.length - index })),
+  };
+}
+
+// Trending API response
+export function trendingResponse(catalog: MockCatalog, query: Query) {
+  const limit = toNumber(query.get("limit")) ?? 6;
+  return {
+    trending: {
+      queries: catalog.trending.slice(0, limit).map((searchQuery, index) => ({
+        searchQuery,
+        popularity: (catalog.trending.length - index) * 100,
+      })),
+    },
+  };
+}
+
+function list(value: string | null): string[] {
+  return (value ?? "").split(",").map(item => item.trim()).filter(Boolean);
+}
+
+// Recommendations response: one profile per requested tag
+export function recommendResponse(catalog: MockCatalog, query: Query) {
+  const tags = list(query.get("tags"));
+  const limits = list(query.get("limits")).map(Number);
+  const findAll = (ids: string[]) => ids
+    .map(id => catalog.products.find(product => product.id === id || product.sku === id))
+    .filter((product): product is MockProduct => Boolean(product));
+  const context = findAll([...list(query.get("products")), ...list(query.get("cart"))]);
+  const lastViewed = findAll(list(query.get("lastViewed")));
+  const blocked = new Set(list(query.get("blockedItems")));
+  const filters = parseFilters(query);
+  const byPopularity = [...catalog.products].sort((a, b) => b.popularity - a.popularity);
+
+  return tags.map((tag, index) => {
+    let candidates: MockProduct[];
+    if (/similar|related/i.test(tag)) {
+      const categories = new Set(context.map(product => product.category));
+      candidates = byPopularity.filter(product => categories.has(product.category));
+    } else if (/viewed/i.test(tag)) {
+      candidates = lastViewed;
+    } else if (/cross|bought|cart/i.test(tag)) {
+      const categories = new Set(context.map(product => product.category));
+      candidates = byPopularity.filter(product => !categories.has(product.category));
+    } else {
+      candidates = byPopularity;
+    }
+
+    const limit = limits[index] ?? limits[0] ?? 10;
+    const results = candidates
+      .filter(product => !context.includes(product) || /viewed/i.test(tag))
+      .filter(product => !blocked.has(product.id) && !blocked.has(product.sku))
+      .filter(product => filters.every(filter => matchesFilter(product, filter)))
+      .slice(0, limit);
+
+    return {
+      profile: { tag, placement: "other", display: { template: { name: "default" } } },
+      results: results.map(product => ({
+        id: product.id,
+        mappings: {
+          core: {
+            uid: product.id,
+            sku: product.sku,
+            name: product.name,
+            url: product.url,
+            imageUrl: product.imageUrl,
+            price: product.price,
+            msrp: product.msrp,
+            brand: product.brand,
+          },
+        },
+        attributes: { category: product.category, color: product.color, rating: product.rating },
+      })),
+    };
+  });
+}
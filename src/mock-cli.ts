@@ -0,0 +1,26 @@
+#!/usr/bin/env node
+
+import { validateMockServerConfig } from "./config.js";
+import { loadMockCatalog } from "./mock-catalog.js";
+import { startMockServer } from "./mock-server.js";
+
+// Run the mock Searchspring API server until interrupted
+async function main() {
+  try {
+    const config = validateMockServerConfig();
+    const catalog = loadMockCatalog(config.catalog);
+    const mock = await startMockServer({ port: config.port, host: config.host, catalog });
+
+    const shutdown = () => void mock.close().then(() => process.exit(0));
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+
+    console.error(`Mock Searchspring API listening on ${mock.url} (${catalog.products.length} products)`);
+    console.error(`Try: curl '${mock.url}/api/search/search.json?siteId=mock&q=shoes'`);
+  } catch (error) {
+    console.error("Failed to start mock server:", error);
+    process.exit(1);
+  }
+}
+
+main();
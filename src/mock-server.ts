@@ -0,0 +1,269 @@
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  loadMockCatalog,
+  MockCatalog,
+  recommendResponse,
+  searchResponse,
+  suggestResponse,
+  trendingResponse,
+} from "./mock-catalog.js";
+
+export interface MockServerOptions {
+  port?: number;
+  host?: string;
+  catalog?: MockCatalog;
+  // Bulk index jobs report "indexing" for this long before "completed" (default 1s)
+  indexDurationMs?: number;
+  // Minimum time between index triggers for one feed, like the real hourly limit (default 1h)
+  indexIntervalMs?: number;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  params: Record<string, string[]>;
+  // Basic auth user (the site ID) - the secret key is never recorded
+  user?: string;
+}
+
+interface MockIndexJob {
+  method: string;
+  startedAt: number;
+  uploadBytes: number;
+}
+
+export interface MockServerHandle {
+  port: number;
+  // Base URL to use in place of https://{siteId}.a.searchspring.io and https://beacon.searchspring.io
+  url: string;
+  // Every API request received, for asserting what generated code sent
+  requests: MockRequest[];
+  // Every beacon event POSTed to /api/event
+  events: unknown[];
+  close(): Promise<void>;
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Feed uploads are larger than API payloads
+const MAX_FEED_BYTES = 50 * 1024 * 1024;
+
+const INDEX_PATHS = { feed: "/api/index/feed", status: "/api/index/status" };
+
+const RECOMMEND_PATH = /^\/boost\/[^/]+\/recommend\/?$/;
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage, limit = MAX_BODY_BYTES): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limit) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// Site ID and secret key from an Authorization: Basic header
+function readBasicAuth(req: IncomingMessage): { user: string; password: string } | undefined {
+  const match = req.headers.authorization?.match(/^Basic\s+(.+)$/i);
+  if (!match?.[1]) {
+    return undefined;
+  }
+  const decoded = Buffer.from(match[1], "base64").toString("utf8");
+  const separator = decoded.indexOf(":");
+  return separator === -1 ? undefined : { user: decoded.slice(0, separator), password: decoded.slice(separator + 1) };
+}
+
+// Serve offline stand-ins for the Searchspring search, autocomplete, suggest,
+// trending, recommendations, beacon and bulk indexing APIs from a sample catalog.
+// Paths match the real endpoints, so generated code only needs its base URL swapped.
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServerHandle> {
+  const catalog = options.catalog ?? loadMockCatalog();
+  const requests: MockRequest[] = [];
+  const events: unknown[] = [];
+  const indexJobs = new Map<string, MockIndexJob>();
+  const indexDurationMs = options.indexDurationMs ?? 1000;
+  const indexIntervalMs = options.indexIntervalMs ?? 60 * 60 * 1000;
+
+  function indexStatus(feedId: string) {
+    const job = indexJobs.get(feedId);
+    if (!job) {
+      return { feedId, status: "idle", message: "No indexing job has run for this feed" };
+    }
+    const completedAt = job.startedAt + indexDurationMs;
+    const done = Date.now() >= completedAt;
+    return {
+      feedId,
+      status: done ? "completed" : "indexing",
+      method: job.method,
+      ...(job.method === "POST" ? { uploadBytes: job.uploadBytes } : {}),
+      startedAt: new Date(job.startedAt).toISOString(),
+      ...(done ? { completedAt: new Date(completedAt).toISOString() } : {}),
+      message: done ? "Indexing completed" : "Indexing in progress",
+    };
+  }
+
+  async function handleIndex(req: IncomingMessage, res: ServerResponse, path: string, method: string, feedId: string | null) {
+    if (!readBasicAuth(req)) {
+      res.setHeader("WWW-Authenticate", 'Basic realm="index-api"');
+      sendJson(res, 401, { success: false, message: "Authentication required: siteId:secretKey" });
+      return;
+    }
+    if (!feedId) {
+      sendJson(res, 400, { success: false, message: "Missing required parameter: feedId" });
+      return;
+    }
+
+    if (path === INDEX_PATHS.status) {
+      if (method !== "GET") {
+        sendJson(res, 405, { success: false, message: `${method} is not supported on ${path}` });
+        return;
+      }
+      sendJson(res, 200, indexStatus(feedId));
+      return;
+    }
+
+    if (method !== "PUT" && method !== "POST") {
+      sendJson(res, 405, { success: false, message: "Trigger indexing with PUT (cart platforms) or POST (feed upload)" });
+      return;
+    }
+    let uploadBytes = 0;
+    if (method === "POST") {
+      const body = await readBody(req, MAX_FEED_BYTES);
+      if (!req.headers["content-type"]?.startsWith("multipart/form-data") || !body.includes('name="feedFile"')) {
+        sendJson(res, 400, { success: false, message: "POST requests must upload the feed as multipart/form-data field feedFile" });
+        return;
+      }
+      uploadBytes = Buffer.byteLength(body);
+    }
+
+    const previous = indexJobs.get(feedId);
+    if (previous && Date.now() - previous.startedAt < indexIntervalMs) {
+      sendJson(res, 429, { success: false, message: `Feed ${feedId} was indexed less than an hour ago` });
+      return;
+    }
+    indexJobs.set(feedId, { method, startedAt: Date.now(), uploadBytes });
+    sendJson(res, 200, { success: true, message: "Indexing started", feedId });
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = req.method ?? "GET";
+    const query = url.searchParams;
+
+    // Generated snippets run in browsers too
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    if (method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    if (url.pathname === "/health") {
+      sendJson(res, 200, { status: "ok", products: catalog.products.length });
+      return;
+    }
+
+    const params: Record<string, string[]> = {};
+    for (const [name, value] of query) {
+      (params[name] ??= []).push(value);
+    }
+    const auth = readBasicAuth(req);
+    requests.push({ method, path: url.pathname, params, ...(auth ? { user: auth.user } : {}) });
+
+    if (url.pathname === INDEX_PATHS.feed || url.pathname === INDEX_PATHS.status) {
+      await handleIndex(req, res, url.pathname, method, query.get("feedId"));
+      return;
+    }
+
+    if (url.pathname === "/api/event") {
+      if (method !== "POST") {
+        sendJson(res, 405, { error: "Beacon events must be POSTed" });
+        return;
+      }
+      let payload: unknown;
+      try {
+        payload = JSON.parse(await readBody(req));
+      } catch {
+        sendJson(res, 400, { error: "Beacon payload must be JSON" });
+        return;
+      }
+      events.push(...(Array.isArray(payload) ? payload : [payload]));
+      sendJson(res, 200, { success: true });
+      return;
+    }
+
+    if (method !== "GET") {
+      sendJson(res, 405, { error: `${method} is not supported on ${url.pathname}` });
+      return;
+    }
+
+    if (RECOMMEND_PATH.test(url.pathname)) {
+      if (!query.get("tags")) {
+        sendJson(res, 400, { error: "Missing required parameter: tags" });
+        return;
+      }
+      sendJson(res, 200, recommendResponse(catalog, query));
+      return;
+    }
+
+    const routes: Record<string, () => unknown> = {
+      "/api/search/search.json": () => searchResponse(catalog, query, "search"),
+      "/api/search/autocomplete.json": () => searchResponse(catalog, query, "autocomplete"),
+      "/api/suggest/query": () => suggestResponse(catalog, query),
+      "/api/suggest/trending": () => trendingResponse(catalog, query),
+    };
+    const route = routes[url.pathname];
+    if (!route) {
+      sendJson(res, 404, { error: `Not found: ${url.pathname}` });
+      return;
+    }
+    if (!query.get("siteId")) {
+      sendJson(res, 400, { error: "Missing required parameter: siteId" });
+      return;
+    }
+    sendJson(res, 200, route());
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    handle(req, res).catch(error => {
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: error instanceof Error ? error.message : "Internal server error" });
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  const host = options.host ?? "127.0.0.1";
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port ?? 0, host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const port = (httpServer.address() as AddressInfo).port;
+
+  return {
+    port,
+    url: `http://${host}:${port}`,
+    requests,
+    events,
+    async close() {
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
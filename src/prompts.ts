@@ -0,0 +1,117 @@
+import {
+  ErrorCode,
+  GetPromptResult,
+  McpError,
+  Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+import { GeneratorPlatformSchema, ValidatorPlatformSchema } from "./schemas.js";
+
+type PromptArgs = Record<string, string | undefined>;
+
+interface PromptDefinition extends Prompt {
+  build(args: PromptArgs): string;
+}
+
+function siteIdLine(siteId: string | undefined): string {
+  return siteId
+    ? `The Searchspring site ID is \`${siteId}\`; use it in every URL and code sample.`
+    : "No site ID was given; ask me for it before producing final code, and use the example site ID until then.";
+}
+
+// The searchspring_code_validator platform for a prompt's platform argument: languages without a
+// store platform are "custom"
+function validatorPlatform(platform: string | undefined): string {
+  const parsed = ValidatorPlatformSchema.safeParse(platform);
+  if (parsed.success) {
+    return parsed.data;
+  }
+  return GeneratorPlatformSchema.safeParse(platform).success ? "custom" : "other";
+}
+
+const promptDefinitions: PromptDefinition[] = [
+  {
+    name: "integrate-search-autocomplete",
+    description: "Step-by-step integration of the Search and Autocomplete APIs on a platform",
+    arguments: [
+      { name: "platform", description: "E-commerce platform or language (e.g. shopify, bigcommerce, magento2, javascript)", required: true },
+      { name: "siteId", description: "Searchspring site ID (optional)", required: false },
+    ],
+    build: ({ platform, siteId }) => `I need to integrate Searchspring search and autocomplete on ${platform}. ${siteIdLine(siteId)}
+
+Work through these steps in order, calling the tools exactly as described:
+
+1. Call \`searchspring_api_guide\` with \`{"api": "search"}\` and summarize the endpoint, the required tracking parameters (userId, sessionId, pageLoadId, domain) and the best practices.
+2. Call \`searchspring_api_guide\` with \`{"api": "autocomplete"}\` and point out how it differs from the Search API.
+3. Call \`searchspring_code_generator\` with \`{"api": "search", "platform": "${platform}"}\` and then with \`{"api": "autocomplete", "platform": "${platform}"}\`. Present both snippets and explain where each belongs in a ${platform} theme or codebase.
+4. Call \`searchspring_code_validator\` on each generated snippet (\`codeType\` "search" and "autocomplete", \`platform\` "${validatorPlatform(platform)}") and fix anything it reports as an error before showing the final code.
+5. Finish with a short checklist I can follow to verify the integration in the browser network tab.`,
+  },
+  {
+    name: "audit-tracking",
+    description: "Audit an existing IntelliSuggest/beacon tracking implementation on a platform",
+    arguments: [
+      { name: "platform", description: "E-commerce platform (e.g. bigcommerce, shopify, magento2)", required: true },
+      { name: "siteId", description: "Searchspring site ID (optional)", required: false },
+      { name: "code", description: "Existing tracking code to audit (optional; will be requested if omitted)", required: false },
+    ],
+    build: ({ platform, siteId, code }) => `I need an audit of the Searchspring tracking on my ${platform} store. ${siteIdLine(siteId)}
+
+${code ? `Here is the current tracking code:\n\n\`\`\`\n${code}\n\`\`\`` : "Ask me to paste the current product, cart and order-confirmation tracking code before starting step 2."}
+
+Work through these steps in order, calling the tools exactly as described:
+
+1. Call \`searchspring_api_guide\` with \`{"api": "beacon"}\` to establish what correct tracking requires.
+2. Call \`searchspring_code_validator\` with the code, \`"codeType": "tracking"\` and \`"platform": "${validatorPlatform(platform)}"\`. List every error and warning it reports.
+3. For each event type that is missing or broken (product, cart, sale), call \`searchspring_code_generator\` with \`{"api": "tracking", "platform": "${platform}", "eventType": "<event>"}\` to get the reference implementation.
+4. Compare my code against the generated reference and produce a prioritized list of fixes, most impactful first.
+5. Re-run \`searchspring_code_validator\` on the corrected code to confirm the errors are gone.`,
+  },
+  {
+    name: "setup-bulk-indexing",
+    description: "Set up bulk indexing for a custom product feed",
+    arguments: [
+      { name: "siteId", description: "Searchspring site ID (optional)", required: false },
+      { name: "platform", description: "Language for the indexing code (e.g. javascript, php, python); defaults to javascript", required: false },
+    ],
+    build: ({ siteId, platform }) => {
+      const language = platform || "javascript";
+      return `I need to set up Searchspring bulk indexing for a custom product feed. ${siteIdLine(siteId)}
+
+Work through these steps in order, calling the tools exactly as described:
+
+1. Call \`searchspring_api_guide\` with \`{"api": "bulk-index"}\` and explain the difference between PUT (cart platform) and POST (custom feed upload), the authentication scheme and the once-per-hour limit.
+2. Call \`searchspring_code_generator\` with \`{"api": "bulk-index", "platform": "${language}"}\` and adapt the custom-feed upload function for my feed.
+3. Call \`searchspring_code_validator\` with the adapted code and \`"codeType": "bulk-index"\`, and resolve every reported error.
+4. Explain how to keep the secret key out of client-side code and how to schedule the upload without exceeding the hourly limit.`;
+    },
+  },
+];
+
+export const prompts: Prompt[] = promptDefinitions.map(({ build, ...prompt }) => prompt);
+
+export function getPrompt(name: string, args: PromptArgs = {}): GetPromptResult {
+  const definition = promptDefinitions.find(prompt => prompt.name === name);
+  if (!definition) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const missing = (definition.arguments ?? [])
+    .filter(arg => arg.required && !args[arg.name])
+    .map(arg => arg.name);
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required arguments for ${name}: ${missing.join(", ")}`);
+  }
+
+  return {
+    description: definition.description,
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: definition.build(args),
+        },
+      },
+    ],
+  };
+}
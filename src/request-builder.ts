@@ -0,0 +1,137 @@
+import { z } from "zod";
+import { API_ENDPOINTS, ApiName, findRegistryParam, resolveEndpoint } from "./endpoints.js";
+import { RequestBuilderOutputSchema, RequestBuilderParamsSchema } from "./schemas.js";
+
+export type RequestBuilderParams = z.infer<typeof RequestBuilderParamsSchema>;
+
+export type RequestBuilderOutput = z.infer<typeof RequestBuilderOutputSchema>;
+
+type Finding = RequestBuilderOutput["findings"][number];
+
+type FilterValue = NonNullable<RequestBuilderParams["filters"]>[string];
+
+// Parameters with a fixed value for an API, applied unless the caller overrides them
+const FIXED_PARAMS: Partial<Record<RequestBuilderParams["api"], Record<string, string>>> = {
+  search: { resultsFormat: "json" },
+  autocomplete: { resultsFormat: "json" },
+  finder: { resultsFormat: "json", resultsPerPage: "0" },
+};
+
+// Where each tracking parameter comes from, for missing-parameter messages
+const TRACKING_SOURCES: Record<string, string> = {
+  userId: "the ssUserId cookie",
+  sessionId: "the ssSessionIdNamespace cookie",
+  pageLoadId: "a UUID v4 generated per page load",
+  domain: "window.location.href",
+};
+
+function appendFilters(params: URLSearchParams, prefix: string, filters: Record<string, FilterValue> = {}) {
+  for (const [field, value] of Object.entries(filters)) {
+    if (Array.isArray(value)) {
+      value.forEach(item => params.append(`${prefix}.${field}`, String(item)));
+    } else if (typeof value === "object") {
+      // Range filters use separate low/high bounds
+      if (value.low !== undefined) params.append(`${prefix}.${field}.low`, String(value.low));
+      if (value.high !== undefined) params.append(`${prefix}.${field}.high`, String(value.high));
+    } else {
+      params.append(`${prefix}.${field}`, String(value));
+    }
+  }
+}
+
+// Required parameters that are missing or have the wrong fixed value, and parameters the registry does not declare
+export function checkRequestParams(api: ApiName, params: URLSearchParams): Finding[] {
+  const endpoint = API_ENDPOINTS[api];
+  const findings: Finding[] = [];
+
+  for (const param of endpoint.requiredParams) {
+    const [name = param, expected] = param.split("=");
+    if (!params.has(name)) {
+      const source = TRACKING_SOURCES[name] ? ` (from ${TRACKING_SOURCES[name]})` : "";
+      findings.push({ ruleId: "request/missing-param", severity: "error", message: `Missing required '${name}' parameter${source}` });
+    } else if (expected !== undefined && params.get(name) !== expected) {
+      findings.push({ ruleId: "request/fixed-param", severity: "error", message: `'${name}' must be ${expected} for the ${endpoint.name}` });
+    }
+  }
+
+  for (const name of new Set(params.keys())) {
+    if (!findRegistryParam(api, name)) {
+      findings.push({ ruleId: "request/unknown-param", severity: "warning", message: `'${name}' is not a documented ${endpoint.name} parameter` });
+    }
+  }
+
+  return findings;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// The request URL, with the endpoint's origin swapped for baseUrl when one is configured. The
+// endpoint path is appended to the base URL's path, so a proxy prefix such as /searchspring is kept.
+export function requestUrl(url: string, baseUrl: string | undefined): string {
+  if (!baseUrl) {
+    return url;
+  }
+  const { pathname, search } = new URL(url);
+  const base = new URL(baseUrl);
+  base.pathname = `${base.pathname.replace(/\/+$/, "")}${pathname}`;
+  base.search = search;
+  return base.toString();
+}
+
+// Assemble an encoded GET request for a Searchspring API and check it against the endpoint registry
+export function buildRequest(request: RequestBuilderParams, siteId: string): RequestBuilderOutput {
+  const { api } = request;
+  const endpoint = resolveEndpoint(api, siteId);
+  const params = new URLSearchParams();
+
+  // recommendations take the site ID from the path only
+  if (endpoint.requiredParams.includes("siteId")) {
+    params.set("siteId", siteId);
+  }
+  for (const [name, value] of Object.entries(FIXED_PARAMS[api] ?? {})) {
+    params.set(name, value);
+  }
+
+  if (request.query !== undefined) params.set("q", request.query);
+  appendFilters(params, "filter", request.filters);
+  appendFilters(params, "bgfilter", request.backgroundFilters);
+  for (const { field, direction } of request.sort ?? []) {
+    params.append(`sort.${field}`, direction);
+  }
+  if (request.page !== undefined) params.set("page", String(request.page));
+  if (request.resultsPerPage !== undefined) params.set("resultsPerPage", String(request.resultsPerPage));
+
+  for (const [name, value] of Object.entries(request.tracking ?? {})) {
+    if (value !== undefined) params.set(name, value);
+  }
+  if (request.shopper !== undefined) params.set("shopper", request.shopper);
+  if (request.cart?.length) params.set("cart", request.cart.join(","));
+  if (request.lastViewed?.length) params.set("lastViewed", request.lastViewed.join(","));
+
+  for (const [name, value] of Object.entries(request.params ?? {})) {
+    params.set(name, Array.isArray(value) ? value.join(",") : String(value));
+  }
+
+  const findings = checkRequestParams(api, params);
+
+  const query = params.toString();
+  const url = query ? `${endpoint.url}?${query}` : endpoint.url;
+
+  return {
+    api,
+    method: "GET",
+    url,
+    params: [...params].map(([name, value]) => ({ name, value })),
+    valid: !findings.some(finding => finding.severity === "error"),
+    findings,
+    fetch: `const response = await fetch(${JSON.stringify(url)});
+if (!response.ok) {
+  throw new Error(\`${endpoint.name} request failed: \${response.status}\`);
+}
+const data = await response.json();`,
+    curl: `curl ${shellQuote(url)}`,
+  };
+}
+
@@ -0,0 +1,176 @@
+import { z } from "zod";
+import { API_ENDPOINTS, ApiName, findRegistryParam, matchEndpoint } from "./endpoints.js";
+import { findParameterGuide, KnowledgeBase } from "./knowledge-base.js";
+import { checkRequestParams } from "./request-builder.js";
+import { ExplainRequestOutputSchema } from "./schemas.js";
+
+export type ExplainRequestOutput = z.infer<typeof ExplainRequestOutputSchema>;
+
+type Finding = ExplainRequestOutput["findings"][number];
+
+type ExplainedParameter = ExplainRequestOutput["parameters"][number];
+
+// Characters that must be percent-encoded in a query string, and stray "%" signs
+const UNENCODED_PATTERN = /[\s"<>\\^`{|}]|[^\x00-\x7F]|%(?![0-9a-f]{2})/i;
+
+// Query parameters whose values are never echoed back, e.g. a bulk index secretKey
+const SECRET_PARAM_PATTERN = /^(?:secret|secret[_-]?key|api[_-]?key|password|passwd|token|access[_-]?token|auth)$/i;
+
+const CREDENTIALS_MESSAGE = "URL contains a secret key (redacted here) - rotate it if this URL was shared outside your server";
+
+// filter.price=10-50, filter.price=10..50, filter.price=[10 TO 50]
+const RANGE_VALUE_PATTERN = /^\s*\[?\s*-?\d+(?:\.\d+)?\s*(?:-|\.\.|,|:|to)\s*-?\d+(?:\.\d+)?\s*\]?\s*$/i;
+
+function decode(value: string): string | undefined {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " "));
+  } catch {
+    return undefined;
+  }
+}
+
+// Finder and search share an endpoint; a facets-only request is a finder request
+function identifyApi(base: string, rawQuery: string): ApiName | undefined {
+  const apis = matchEndpoint(base);
+  if (apis.includes("finder") && apis.includes("search")) {
+    return /(?:^|&)resultsPerPage=0(?:&|$)/.test(rawQuery) ? "finder" : "search";
+  }
+  return apis[0];
+}
+
+// Parameter guide for a registry parameter; finder falls back to the Search API guides
+function findGuide(
+  knowledgeBase: KnowledgeBase,
+  api: ApiName,
+  registryParam: string
+): { api: ApiName; parameter: string; description: string } | undefined {
+  const match = findParameterGuide(knowledgeBase.parameters[api] ?? {}, registryParam);
+  if (match) {
+    return { api, parameter: match[0], description: match[1].description };
+  }
+  return api === "finder" ? findGuide(knowledgeBase, "search", registryParam) : undefined;
+}
+
+function checkFilterSyntax(name: string, value: string): Finding | undefined {
+  const filter = name.match(/^(bg)?filter\.([^.]+)(?:\.(\w+))?$/);
+  if (!filter) {
+    return undefined;
+  }
+  const [, background = "", field, bound] = filter;
+  const prefix = `${background}filter.${field}`;
+
+  if (!bound && RANGE_VALUE_PATTERN.test(value)) {
+    const [low, high] = value.replace(/[[\]\s]/g, "").split(/-(?=\d)|\.\.|,|:|to/i);
+    return {
+      ruleId: "request/filter-range",
+      severity: "error",
+      message: `${name}=${value} is not a range filter - use ${prefix}.low=${low}&${prefix}.high=${high}`,
+    };
+  }
+  if (bound === "low" || bound === "high") {
+    return Number.isNaN(Number(value)) || value.trim() === ""
+      ? { ruleId: "request/filter-range", severity: "error", message: `${name} must be a number, got '${value}'` }
+      : undefined;
+  }
+  if (bound && ["min", "max", "from", "to", "gte", "lte"].includes(bound.toLowerCase())) {
+    const replacement = ["min", "from", "gte"].includes(bound.toLowerCase()) ? "low" : "high";
+    return { ruleId: "request/filter-range", severity: "error", message: `${name} is not a range bound - use ${prefix}.${replacement}` };
+  }
+  return undefined;
+}
+
+// Parse a Searchspring API URL, explain each parameter from the parameter guides and lint it
+export function explainRequest(input: string, knowledgeBase: KnowledgeBase): ExplainRequestOutput {
+  const findings: Finding[] = [];
+  const trimmed = input.trim();
+  let url = /^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+
+  // Bulk index URLs carry siteId:secretKey - never echo the key back
+  const credentials = url.match(/^([a-z]+:\/\/)([^@/?#:]*):([^@/?#]*)@/i);
+  if (credentials) {
+    url = url.replace(credentials[0], `${credentials[1]}${credentials[2]}:****@`);
+    findings.push({ ruleId: "request/credentials", severity: "warning", message: CREDENTIALS_MESSAGE });
+  }
+
+  const [withoutHash = ""] = url.split("#");
+  const queryStart = withoutHash.indexOf("?");
+  const base = queryStart === -1 ? withoutHash : withoutHash.slice(0, queryStart);
+  const rawQuery = queryStart === -1 ? "" : withoutHash.slice(queryStart + 1);
+
+  const api = identifyApi(base, rawQuery);
+  if (!api) {
+    findings.push({ ruleId: "request/unknown-endpoint", severity: "error", message: `${base} is not a known Searchspring API endpoint` });
+  }
+
+  const params = new URLSearchParams();
+  const parameters: ExplainedParameter[] = [];
+  // The query as echoed back, with secret values redacted
+  const echoed: string[] = [];
+  let secrets = false;
+
+  for (const pair of rawQuery.split("&").filter(Boolean)) {
+    const separator = pair.indexOf("=");
+    const rawName = separator === -1 ? pair : pair.slice(0, separator);
+    const name = decode(rawName) ?? rawName;
+    const secret = separator !== -1 && SECRET_PARAM_PATTERN.test(name);
+    const rawValue = secret ? "****" : separator === -1 ? "" : pair.slice(separator + 1);
+    const value = decode(rawValue);
+    if (secret) secrets = true;
+    echoed.push(secret ? `${rawName}=****` : pair);
+
+    if (value === undefined) {
+      findings.push({ ruleId: "request/malformed-encoding", severity: "error", message: `'${name}' has an invalid percent-encoded value: ${rawValue}` });
+    } else if (UNENCODED_PATTERN.test(rawName) || UNENCODED_PATTERN.test(rawValue)) {
+      findings.push({
+        ruleId: "request/unencoded-value",
+        severity: "warning",
+        message: `'${name}' contains characters that must be URL encoded - build the query with URLSearchParams or encodeURIComponent`,
+      });
+    }
+
+    const decoded = value ?? rawValue;
+    params.append(name, decoded);
+
+    const filterFinding = checkFilterSyntax(name, decoded);
+    if (filterFinding) {
+      findings.push(filterFinding);
+    }
+
+    const parameter: ExplainedParameter = { name, value: decoded };
+    const registryParam = api ? findRegistryParam(api, name) : undefined;
+    if (api && registryParam) {
+      parameter.registryParam = registryParam;
+      const match = findGuide(knowledgeBase, api, registryParam);
+      if (match) {
+        parameter.description = match.description;
+        parameter.parameterGuide = { api: match.api, parameter: match.parameter };
+      }
+    }
+    parameters.push(parameter);
+  }
+
+  if (secrets) {
+    url = `${base}?${echoed.join("&")}${url.slice(withoutHash.length)}`;
+    if (!credentials) {
+      findings.push({ ruleId: "request/credentials", severity: "warning", message: CREDENTIALS_MESSAGE });
+    }
+  }
+
+  if (api === "beacon") {
+    findings.push({
+      ruleId: "request/post-body",
+      severity: "suggestion",
+      message: "Beacon events are POSTed as a JSON array in the request body - check the payload in the network tab, not the URL",
+    });
+  } else if (api) {
+    findings.push(...checkRequestParams(api, params));
+  }
+
+  return {
+    url,
+    ...(api ? { api, endpoint: API_ENDPOINTS[api].name } : {}),
+    parameters,
+    valid: !findings.some(finding => finding.severity === "error"),
+    findings,
+  };
+}
@@ -0,0 +1,87 @@
+import {
+  CallToolResult,
+  ErrorCode,
+  McpError,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ApiGuideParams, SearchspringClient } from "./searchspring-client.js";
+
+const GUIDE_URI_PATTERN = /^searchspring:\/\/guide\/([^/]+)$/;
+const PARAMETER_URI_PATTERN = /^searchspring:\/\/parameter\/([^/]+)\/([^/]+)$/;
+
+export const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: "searchspring://guide/{api}",
+    name: "Searchspring API guide",
+    description: "Implementation guide for a Searchspring API (search, autocomplete, suggest, trending, recommendations, finder, beacon, bulk-index)",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: "searchspring://parameter/{api}/{parameter}",
+    name: "Searchspring parameter guide",
+    description: "Detailed guide for a single Searchspring API parameter (e.g. searchspring://parameter/recommendations/tags)",
+    mimeType: "text/markdown",
+  },
+];
+
+// Markdown body of a tool result
+function markdownOf(result: CallToolResult): string {
+  const block = result.content.find(item => item.type === "text");
+  return block?.type === "text" ? block.text : "";
+}
+
+export function guideUri(api: string): string {
+  return `searchspring://guide/${api}`;
+}
+
+export function parameterUri(api: string, parameter: string): string {
+  return `searchspring://parameter/${api}/${encodeURIComponent(parameter)}`;
+}
+
+// Every API guide and parameter guide, as concrete resources
+export function listResources(client: SearchspringClient): Resource[] {
+  const guides: Resource[] = client.getApiNames().map(api => ({
+    uri: guideUri(api),
+    name: `${api} API guide`,
+    description: `Implementation guide for the Searchspring ${api} API`,
+    mimeType: "text/markdown",
+  }));
+
+  const parameters: Resource[] = Object.entries(client.getParameterNames()).flatMap(([api, names]) =>
+    names.map(parameter => ({
+      uri: parameterUri(api, parameter),
+      name: `${api} ${parameter} parameter`,
+      description: `Guide for the '${parameter}' parameter of the Searchspring ${api} API`,
+      mimeType: "text/markdown",
+    }))
+  );
+
+  return [...guides, ...parameters];
+}
+
+export async function readResource(client: SearchspringClient, uri: string): Promise<ReadResourceResult> {
+  const guideMatch = uri.match(GUIDE_URI_PATTERN);
+  if (guideMatch?.[1]) {
+    const api = guideMatch[1] as ApiGuideParams["api"];
+    if (!client.getApiNames().includes(api)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown API guide: ${api}`);
+    }
+    const result = await client.getApiGuide({ api });
+    return { contents: [{ uri, mimeType: "text/markdown", text: markdownOf(result) }] };
+  }
+
+  const parameterMatch = uri.match(PARAMETER_URI_PATTERN);
+  if (parameterMatch?.[1] && parameterMatch[2]) {
+    const api = parameterMatch[1] as ApiGuideParams["api"];
+    const parameter = decodeURIComponent(parameterMatch[2]);
+    if (!client.getParameterNames()[api]?.includes(parameter)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown parameter guide: ${api}/${parameter}`);
+    }
+    const result = await client.getParameterGuide({ api, parameter });
+    return { contents: [{ uri, mimeType: "text/markdown", text: markdownOf(result) }] };
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+}
@@ -0,0 +1,501 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+// Single source of truth for tool arguments: the TypeScript param types in
+// searchspring-client.ts and the JSON Schemas advertised to clients are both
+// derived from these Zod schemas.
+
+export const ApiNameSchema = z.enum([
+  "search",
+  "autocomplete",
+  "suggest",
+  "trending",
+  "recommendations",
+  "finder",
+  "beacon",
+  "bulk-index",
+]);
+
+export const CodeApiSchema = z.enum([...ApiNameSchema.options, "tracking"]);
+
+export const GeneratorPlatformSchema = z.enum([
+  "shopify",
+  "bigcommerce",
+  "bigcommerce-blueprint",
+  "bigcommerce-stencil",
+  "magento1",
+  "magento2",
+  "miva",
+  "commercev3",
+  "3dcart",
+  "volusion",
+  "javascript",
+  "php",
+  "python",
+  "custom",
+]);
+
+export const ValidatorPlatformSchema = z.enum([
+  "shopify",
+  "bigcommerce",
+  "bigcommerce-stencil",
+  "bigcommerce-blueprint",
+  "magento1",
+  "magento2",
+  "miva",
+  "commercev3",
+  "3dcart",
+  "volusion",
+  "custom",
+  "other",
+]);
+
+export const EventTypeSchema = z.enum(["product", "cart", "sale", "search-click", "impression"]);
+
+// Storefront platforms IntelliSuggest tracking templates are written for
+export const TrackingPlatformSchema = z.enum([
+  "shopify",
+  "bigcommerce-blueprint",
+  "bigcommerce-stencil",
+  "magento1",
+  "magento2",
+  "miva",
+  "commercev3",
+  "3dcart",
+  "volusion",
+  "custom",
+]);
+
+// Real product values for tracking snippets; templates that read them from the page ignore them
+const TrackingValuesSchema = z.object({
+  sku: z.string().trim().min(1).optional().describe("Product SKU, matching the SKU core field in your Searchspring feed (tracking only)"),
+  price: z.number().nonnegative().optional().describe("Product price without currency symbol (tracking only)"),
+  quantity: z.number().int().positive().optional().describe("Quantity for cart and sale events (tracking only)"),
+});
+
+export const PlatformImplementationParamsSchema = z.object({
+  platform: TrackingPlatformSchema,
+  eventType: EventTypeSchema,
+}).merge(TrackingValuesSchema);
+
+export const ApiGuideParamsSchema = z.object({
+  api: ApiNameSchema.describe("The Searchspring API to get implementation guidance for"),
+});
+
+export const ParameterGuideParamsSchema = z.object({
+  api: ApiNameSchema.describe("The Searchspring API containing the parameter"),
+  parameter: z.string().min(1).describe("The specific parameter to get guidance for (e.g., 'filters', 'sort', 'tags')"),
+});
+
+export const CodeGeneratorParamsSchema = z.object({
+  api: CodeApiSchema.describe("The Searchspring API to generate code for"),
+  platform: GeneratorPlatformSchema.describe("Platform or language for code generation"),
+  eventType: EventTypeSchema.optional().describe("Type of tracking event (for tracking/beacon APIs only); impression and search-click track search results through the Beacon API"),
+  useCase: z.string().optional().describe("Specific use case or scenario for the code (optional)"),
+}).merge(TrackingValuesSchema);
+
+export const CodeValidationParamsSchema = z.object({
+  code: z.string().min(1).describe("JavaScript/HTML code to validate"),
+  codeType: CodeApiSchema.describe("Type of Searchspring implementation being validated"),
+  platform: ValidatorPlatformSchema.optional().describe("E-commerce platform (optional)"),
+  issue: z.string().optional().describe("Specific issue or error message you're experiencing (optional)"),
+});
+
+export const DocsSearchParamsSchema = z.object({
+  query: z.string().min(1).describe("Free-text question or keywords (e.g., 'which parameter controls redirects?')"),
+  api: ApiNameSchema.optional().describe("Only return results for this API (optional)"),
+  limit: z.number().int().min(1).max(20).default(5).describe("Maximum number of results (1-20, default 5)"),
+});
+
+const FilterValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.array(z.union([z.string(), z.number()])),
+  z.object({ low: z.number().optional(), high: z.number().optional() }).describe("Range filter"),
+]);
+
+export const RequestBuilderParamsSchema = z.object({
+  api: ApiNameSchema.exclude(["beacon", "bulk-index"]).describe("The Searchspring GET API to build a request for"),
+  siteId: z.string().min(1).optional().describe("Searchspring site ID (defaults to the configured or example site ID)"),
+  query: z.string().optional().describe("Search query (q)"),
+  filters: z.record(FilterValueSchema).optional().describe("Filters by field, sent as filter.{field}; arrays repeat the field, {low, high} sends a range"),
+  backgroundFilters: z.record(FilterValueSchema).optional().describe("Background filters by field, sent as bgfilter.{field}"),
+  sort: z.array(z.object({
+    field: z.string().min(1),
+    direction: z.enum(["asc", "desc"]),
+  })).optional().describe("Sort fields in priority order, sent as sort.{field}"),
+  page: z.number().int().min(1).optional(),
+  resultsPerPage: z.number().int().min(0).optional(),
+  tracking: z.object({
+    userId: z.string().optional().describe("ssUserId cookie value"),
+    sessionId: z.string().optional().describe("ssSessionIdNamespace cookie value"),
+    pageLoadId: z.string().optional().describe("UUID v4 for the current page load"),
+    domain: z.string().optional().describe("Current page URL (window.location.href)"),
+  }).optional(),
+  shopper: z.string().optional().describe("Logged-in shopper ID"),
+  cart: z.array(z.string()).optional().describe("SKUs in the cart"),
+  lastViewed: z.array(z.string()).optional().describe("Recently viewed SKUs, most recent first"),
+  params: z.record(z.union([z.string(), z.number(), z.boolean(), z.array(z.string())])).optional()
+    .describe("Any other parameters, e.g. {\"tags\": [\"similar\"]} for recommendations; arrays are comma-joined"),
+});
+
+export const BeaconValidationParamsSchema = z.object({
+  events: z.union([z.array(z.unknown()), z.record(z.unknown()), z.string()])
+    .describe("Beacon request body: an array of event objects, a single event, or the JSON text copied from the network tab"),
+});
+
+export const FeedFormatSchema = z.enum(["csv", "tsv", "json", "xml"]);
+
+export const FeedValidationParamsSchema = z.object({
+  path: z.string().min(1).describe("Path to a local feed file (on the machine running this server); .csv, .tsv, .txt, .json and .xml files need no format"),
+  format: FeedFormatSchema.optional().describe("Feed format (detected from the file extension and content by default)"),
+});
+
+export const FeedSourcePlatformSchema = z.enum(["shopify", "bigcommerce", "magento", "custom"]);
+
+export const FeedGeneratorParamsSchema = z.object({
+  input: z.string().min(1).describe("Path to a product export (.csv, .tsv, .txt or .json) on the machine running this server"),
+  output: z.string().min(1).optional().describe("Path for the generated feed, ending in the format's extension (default: <input name>.searchspring.<format> next to the input)"),
+  overwrite: z.boolean().default(false).describe("Replace the output file if it already exists"),
+  platform: FeedSourcePlatformSchema.optional().describe("Platform the export came from (detected from its columns by default)"),
+  format: z.enum(["csv", "tsv", "json"]).default("csv").describe("Format of the generated feed"),
+  storeUrl: z.string().url().optional().describe("Storefront origin used to make relative product and image URLs absolute, e.g. https://shop.example.com"),
+  mapping: z.record(z.string()).optional()
+    .describe("Feed field -> export column overrides, e.g. {\"brand\": \"Vendor\"}; use {Column} placeholders to build values (\"https://cdn.example.com{base_image}\"), an empty string to drop a field, or new keys to add fields"),
+  variants: z.enum(["parent", "each"]).default("parent")
+    .describe("'parent' writes one record per product with variant options, SKUs, lowest price and total stock rolled up; 'each' writes one record per variant with a parent_id"),
+  groupBy: z.string().min(1).optional().describe("Custom CSV exports: column whose repeated value groups variant rows under one product"),
+  categorySeparator: z.string().min(1).optional().describe("Separator between levels of a category path in the export (platform default: ' > ' for Shopify, '/' for BigCommerce and Magento)"),
+  multiValueSeparator: z.string().min(1).default("|").describe("Separator for multi-valued feed fields such as categories, tags and variant options"),
+});
+
+export const BulkIndexParamsSchema = z.object({
+  action: z.enum(["trigger", "status"]).default("trigger").describe("'trigger' starts an index job; 'status' only reports the current job"),
+  feedId: z.string().min(1).describe("Feed ID from Data Feeds in the Searchspring Management Console"),
+  method: z.enum(["PUT", "POST"]).default("PUT").describe("PUT re-downloads the feed from a cart platform; POST uploads feedFile"),
+  feedFile: z.string().min(1).optional().describe("Path to the feed file to upload (required for POST)"),
+  requestedBy: z.string().email().optional().describe("Email address notified when the job completes"),
+  waitSeconds: z.number().int().min(0).max(600).default(0).describe("Poll the job status for up to this many seconds after triggering (default 0)"),
+});
+
+export const LiveSearchParamsSchema = RequestBuilderParamsSchema.pick({
+  query: true,
+  filters: true,
+  backgroundFilters: true,
+  sort: true,
+  page: true,
+  resultsPerPage: true,
+  shopper: true,
+}).extend({
+  redirectResponse: z.enum(["minimal", "full"]).optional()
+    .describe("'full' returns results and facets for queries that trigger a redirect"),
+  limit: z.number().int().min(1).max(50).default(10).describe("Maximum number of results to summarize (1-50, default 10)"),
+});
+
+export const LiveAutocompleteParamsSchema = LiveSearchParamsSchema.extend({
+  query: z.string().min(1).describe("Partial query as typed by the shopper"),
+});
+
+export const ExplainRequestParamsSchema = z.object({
+  url: z.string().min(1).describe("Searchspring API request URL, e.g. copied from the browser network tab"),
+});
+
+export const MigrateTrackingParamsSchema = z.object({
+  code: z.string().min(1).describe("Existing IntelliSuggest tracking code: ss.track.product.view, ss.track.cart.add and ss.track.purchase.buy calls, with the surrounding template"),
+  platform: GeneratorPlatformSchema.optional().describe("Platform the code runs on, for platform-specific migration notes"),
+});
+
+// Structured tool output - returned as structuredContent next to the markdown text
+
+export const ApiGuideOutputSchema = z.object({
+  api: ApiNameSchema,
+  name: z.string(),
+  description: z.string(),
+  endpoint: z.string(),
+  requiredParams: z.array(z.string()),
+  optionalParams: z.array(z.string()),
+  example: z.string(),
+  useCases: z.array(z.string()),
+  bestPractices: z.array(z.string()),
+  documentationUrl: z.string(),
+});
+
+export const ParameterGuideOutputSchema = z.object({
+  api: ApiNameSchema,
+  parameter: z.string(),
+  found: z.boolean().describe("False when no guide exists for this parameter; see availableParameters"),
+  description: z.string().optional(),
+  type: z.string().optional(),
+  example: z.string().optional(),
+  bestPractices: z.array(z.string()).optional(),
+  useCases: z.array(z.string()).optional(),
+  relatedParams: z.array(z.string()).optional(),
+  availableParameters: z.array(z.string()),
+});
+
+export const GeneratedFileSchema = z.object({
+  path: z.string().describe("Suggested file name or theme location"),
+  language: z.string(),
+  content: z.string(),
+});
+
+export const CodeGeneratorOutputSchema = z.object({
+  api: CodeApiSchema,
+  platform: GeneratorPlatformSchema,
+  templatePlatform: GeneratorPlatformSchema.optional().describe("Platform whose template produced the files - differs from platform when a fallback was used"),
+  fallback: z.string().optional().describe("Why another platform's template was used"),
+  language: z.string(),
+  files: z.array(GeneratedFileSchema),
+  documentationUrl: z.string(),
+});
+
+export const ValidationSeveritySchema = z.enum(["error", "warning", "suggestion", "pass"]);
+
+export const ValidationFindingSchema = z.object({
+  ruleId: z.string(),
+  severity: ValidationSeveritySchema,
+  message: z.string(),
+});
+
+export const CodeFindingSchema = ValidationFindingSchema.extend({
+  line: z.number().int().optional().describe("1-based line in the submitted code; absent for findings about something missing"),
+  column: z.number().int().optional().describe("1-based column in the submitted code"),
+});
+
+export const CodeValidationOutputSchema = z.object({
+  codeType: CodeApiSchema,
+  platform: ValidatorPlatformSchema.optional(),
+  valid: z.boolean().describe("True when no error-severity findings were reported"),
+  findings: z.array(CodeFindingSchema),
+  suppressed: z.array(CodeFindingSchema).describe("Findings suppressed by searchspring-disable comments in the code"),
+  troubleshooting: z.string().optional(),
+});
+
+export const ListRulesParamsSchema = z.object({
+  codeType: CodeApiSchema.optional().describe("Only list rules that check this implementation type (optional)"),
+  platform: ValidatorPlatformSchema.optional().describe("Only list rules that apply on this platform, including the rules for every platform (optional)"),
+});
+
+export const RuleSeveritySchema = ValidationSeveritySchema.exclude(["pass"]);
+
+export const ValidationRuleSchema = z.object({
+  id: z.string(),
+  description: z.string(),
+  codeTypes: z.array(CodeApiSchema).describe("Implementation types the rule checks"),
+  platforms: z.array(ValidatorPlatformSchema).optional().describe("Platforms the rule checks; absent when it applies on every platform"),
+  severity: RuleSeveritySchema.describe("Severity of the rule's findings, after the rules file"),
+  defaultSeverity: RuleSeveritySchema,
+  enabled: z.boolean().describe("False when the rules file turns the rule off"),
+  docs: z.string().url(),
+});
+
+export const ListRulesOutputSchema = z.object({
+  rules: z.array(ValidationRuleSchema),
+  rulesFile: z.string().optional().describe("Rules file that disabled or re-graded rules, when one is configured"),
+});
+
+export const DocsSearchResultSchema = z.object({
+  kind: z.enum(["guide", "best-practice", "parameter", "troubleshooting"]),
+  api: ApiNameSchema.optional(),
+  parameter: z.string().optional(),
+  title: z.string(),
+  snippet: z.string(),
+  score: z.number(),
+  followUp: z.object({
+    tool: z.string(),
+    arguments: z.record(z.string()),
+  }).optional().describe("Tool call that returns the full guide for this result"),
+});
+
+export const DocsSearchOutputSchema = z.object({
+  query: z.string(),
+  results: z.array(DocsSearchResultSchema),
+});
+
+export const RequestBuilderOutputSchema = z.object({
+  api: ApiNameSchema,
+  method: z.literal("GET"),
+  url: z.string(),
+  params: z.array(z.object({ name: z.string(), value: z.string() })),
+  valid: z.boolean().describe("True when every required parameter is present with a valid value"),
+  findings: z.array(ValidationFindingSchema),
+  fetch: z.string().describe("Equivalent JavaScript fetch snippet"),
+  curl: z.string().describe("Equivalent curl command"),
+});
+
+export const ExplainRequestOutputSchema = z.object({
+  url: z.string().describe("The parsed URL, with any secret key redacted"),
+  api: ApiNameSchema.optional().describe("The API the URL targets; absent when the endpoint is not recognized"),
+  endpoint: z.string().optional(),
+  parameters: z.array(z.object({
+    name: z.string(),
+    value: z.string().describe("Decoded value"),
+    registryParam: z.string().optional().describe("The registry parameter this falls under (e.g. filter.* for filter.brand)"),
+    description: z.string().optional(),
+    parameterGuide: z.object({ api: ApiNameSchema, parameter: z.string() }).optional()
+      .describe("Arguments for searchspring_parameter_guide"),
+  })),
+  valid: z.boolean().describe("True when no error-severity findings were reported"),
+  findings: z.array(ValidationFindingSchema),
+});
+
+export const BeaconValidationOutputSchema = z.object({
+  valid: z.boolean().describe("True when every event matches the schema and no error-severity findings were reported"),
+  eventCount: z.number().int(),
+  events: z.array(z.object({
+    index: z.number().int(),
+    type: z.string().optional(),
+    valid: z.boolean(),
+    errors: z.array(z.object({
+      path: z.string().describe("Field path within the event, e.g. context.pageLoadId"),
+      message: z.string(),
+    })),
+  })),
+  findings: z.array(ValidationFindingSchema).describe("Payload-level problems and warnings"),
+});
+
+export const FeedValidationOutputSchema = z.object({
+  path: z.string(),
+  format: FeedFormatSchema,
+  valid: z.boolean().describe("True when no error-severity findings were reported - safe to spend an indexing slot on"),
+  stats: z.object({
+    bytes: z.number().int(),
+    records: z.number().int(),
+    fields: z.number().int(),
+    emptyFields: z.array(z.string()).describe("Columns with no value in any record"),
+    uniqueSkus: z.number().int(),
+  }),
+  coreFields: z.object({
+    sku: z.string().nullable(),
+    name: z.string().nullable(),
+    price: z.string().nullable(),
+    url: z.string().nullable(),
+    image: z.string().nullable(),
+  }).describe("The feed column used for each core field, or null when none was found"),
+  fields: z.array(z.string()),
+  findings: z.array(ValidationFindingSchema),
+});
+
+export const FeedGeneratorOutputSchema = z.object({
+  input: z.string(),
+  output: z.string().describe("Path the generated feed was written to"),
+  platform: FeedSourcePlatformSchema,
+  platformDetected: z.boolean().describe("True when the platform was detected from the export's columns"),
+  format: z.enum(["csv", "tsv", "json"]),
+  variants: z.enum(["parent", "each"]),
+  mapping: z.record(z.string()).describe("Effective feed field -> export column (or {Column} template) mapping"),
+  stats: z.object({
+    sourceRows: z.number().int(),
+    products: z.number().int(),
+    variants: z.number().int(),
+    records: z.number().int().describe("Records written to the feed"),
+    skippedRows: z.number().int(),
+  }),
+  fields: z.array(z.string()).describe("Columns of the generated feed"),
+  findings: z.array(ValidationFindingSchema).describe("Problems converting the export"),
+  validation: z.object({
+    valid: z.boolean(),
+    findings: z.array(ValidationFindingSchema),
+  }).describe("searchspring_feed_validator result for the generated feed"),
+});
+
+export const BulkIndexOutputSchema = z.object({
+  action: z.enum(["trigger", "status"]),
+  feedId: z.string(),
+  triggered: z.boolean().describe("True when this call started an index job"),
+  refused: z.string().optional().describe("Why the trigger was refused without calling the API"),
+  method: z.enum(["PUT", "POST"]).optional(),
+  job: z.object({
+    status: z.string(),
+    message: z.string().optional(),
+    startedAt: z.string().optional(),
+    completedAt: z.string().optional(),
+  }).optional().describe("Latest job status reported by the status endpoint"),
+  lastTriggeredAt: z.string().optional().describe("When this feed was last triggered from this machine"),
+  nextAllowedAt: z.string().optional().describe("Earliest time the next trigger is allowed"),
+  requests: z.array(z.object({
+    method: z.string(),
+    url: z.string(),
+    status: z.number().int(),
+  })).describe("API calls made, in order"),
+});
+
+export const LiveQueryOutputSchema = z.object({
+  api: z.enum(["search", "autocomplete"]),
+  url: z.string().describe("The request that was sent"),
+  status: z.number().int(),
+  durationMs: z.number(),
+  query: z.object({
+    original: z.string().optional(),
+    corrected: z.string().optional().describe("Spell-corrected query the results are for"),
+  }),
+  pagination: z.object({
+    totalResults: z.number(),
+    currentPage: z.number(),
+    totalPages: z.number(),
+    perPage: z.number(),
+  }),
+  results: z.array(z.object({
+    id: z.string(),
+    name: z.string().optional(),
+    sku: z.string().optional(),
+    brand: z.string().optional(),
+    price: z.number().optional(),
+    url: z.string().optional(),
+  })),
+  facets: z.array(z.object({
+    field: z.string(),
+    label: z.string(),
+    type: z.string(),
+    active: z.boolean(),
+    values: z.array(z.object({ label: z.string(), count: z.number(), active: z.boolean() })),
+    range: z.tuple([z.number(), z.number()]).optional(),
+  })),
+  appliedFilters: z.array(z.string()).describe("Active filter labels from the filter summary"),
+  merchandising: z.object({
+    redirect: z.string().optional().describe("URL the shopper should be sent to instead of a results page"),
+    campaigns: z.array(z.object({ id: z.string(), title: z.string() })),
+    contentZones: z.array(z.string()).describe("Content zones (header, banner, footer, left, inline) with merchandising content"),
+  }),
+});
+
+export const MigrateTrackingOutputSchema = z.object({
+  code: z.string().describe("The code with each migrated call replaced by a Beacon API call"),
+  calls: z.array(z.object({
+    line: z.number().int().describe("1-based line of the call in the original code"),
+    call: z.string().describe("IntelliSuggest call found, e.g. ss.track.cart.add"),
+    beaconType: z.string().optional().describe("Beacon event type it became; absent when it was left for manual migration"),
+  })),
+  diff: z.string().describe("Side-by-side diff of the original (left) and migrated (right) code"),
+  findings: z.array(ValidationFindingSchema).describe("Behaviors that could not be migrated automatically, and dropped fields"),
+});
+
+function toObjectJsonSchema(schema: z.ZodObject<z.ZodRawShape>) {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: "none" }) as Record<string, unknown>;
+  return { ...jsonSchema, type: "object" as const };
+}
+
+// Convert a Zod object schema into the JSON Schema shape MCP expects for inputSchema
+export function toInputSchema(schema: z.ZodObject<z.ZodRawShape>): Tool["inputSchema"] {
+  return toObjectJsonSchema(schema);
+}
+
+// Convert a Zod object schema into the JSON Schema shape MCP expects for outputSchema
+export function toOutputSchema(schema: z.ZodObject<z.ZodRawShape>): NonNullable<Tool["outputSchema"]> {
+  return toObjectJsonSchema(schema);
+}
+
+// Validate tool arguments, turning Zod issues into a readable error message
+export function parseToolArgs<T extends z.ZodTypeAny>(toolName: string, schema: T, args: unknown): z.infer<T> {
+  const result = schema.safeParse(args ?? {});
+  if (!result.success) {
+    const issues = result.error.errors.map(err => {
+      const path = err.path.length > 0 ? err.path.join(".") : "arguments";
+      return `- ${path}: ${err.message}`;
+    });
+    throw new Error(`Invalid arguments for ${toolName}:\n${issues.join("\n")}`);
+  }
+  return result.data;
+}
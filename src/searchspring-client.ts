@@ -1,41 +1,169 @@
+import { realpathSync } from "node:fs";
+import { basename, dirname, extname, join, resolve, sep } from "node:path";
+import { z } from "zod";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { SearchspringConfig } from "./config.js";
-
-export interface PlatformImplementationParams {
-  platform: "shopify" | "bigcommerce-blueprint" | "bigcommerce-stencil" | "magento1" | "magento2" | "miva" | "commercev3" | "3dcart" | "volusion" | "custom";
-  eventType: "product" | "cart" | "sale" | "search-click";
-  sku?: string;
-  price?: number;
-  quantity?: number;
-}
-
-export interface CodeValidationParams {
-  code: string;
-  codeType: "search" | "autocomplete" | "suggest" | "trending" | "recommendations" | "finder" | "beacon" | "bulk-index" | "tracking";
-  platform?: "shopify" | "bigcommerce" | "magento1" | "magento2" | "miva" | "commercev3" | "3dcart" | "volusion" | "custom" | "other";
-  issue?: string;
+import { buildDocEntries, DocsIndex } from "./docs-index.js";
+import { buildRequest, RequestBuilderParams } from "./request-builder.js";
+import { explainRequest } from "./request-explainer.js";
+import { validateBeaconEvents } from "./beacon-validator.js";
+import { listRules, loadRuleConfig, RuleConfig, validateImplementation } from "./code-validator.js";
+import { BulkIndexParams, runBulkIndex } from "./bulk-index.js";
+import { describePlatform, FeedGeneratorParams, generateFeed } from "./feed-generator.js";
+import { validateFeedFile } from "./feed-validator.js";
+import { migrateTracking, MigrateTrackingParams } from "./tracking-migrator.js";
+import { LiveAutocompleteParams, LiveQueryOutput, LiveSearchParams, runLiveQuery } from "./live-query.js";
+import { API_ENDPOINTS, resolveEndpoint, resolveEndpoints } from "./endpoints.js";
+import {
+  ApiGuideContent,
+  findParameterGuide,
+  KnowledgeBase,
+  loadKnowledgeBase,
+  ParameterGuideContent,
+} from "./knowledge-base.js";
+import {
+  API_TEMPLATE_FALLBACKS,
+  canonicalPlatform,
+  commentLine,
+  DEFAULT_TRACKING_FALLBACKS,
+  platformContext,
+  renderTemplate,
+  resolveTemplate,
+  TRACKING_TEMPLATE_FALLBACKS,
+} from "./template-engine.js";
+import {
+  ApiGuideOutputSchema,
+  ApiGuideParamsSchema,
+  BeaconValidationParamsSchema,
+  CodeGeneratorOutputSchema,
+  CodeGeneratorParamsSchema,
+  CodeValidationOutputSchema,
+  CodeValidationParamsSchema,
+  DocsSearchOutputSchema,
+  DocsSearchParamsSchema,
+  ExplainRequestParamsSchema,
+  FeedValidationParamsSchema,
+  ListRulesOutputSchema,
+  ListRulesParamsSchema,
+  ParameterGuideOutputSchema,
+  ParameterGuideParamsSchema,
+  PlatformImplementationParamsSchema,
+  ValidationFindingSchema,
+} from "./schemas.js";
+
+export type PlatformImplementationParams = z.infer<typeof PlatformImplementationParamsSchema>;
+
+export type CodeValidationParams = z.infer<typeof CodeValidationParamsSchema>;
+
+export type ApiGuideParams = z.infer<typeof ApiGuideParamsSchema>;
+
+export type ParameterGuideParams = z.infer<typeof ParameterGuideParamsSchema>;
+
+export type CodeGeneratorParams = z.infer<typeof CodeGeneratorParamsSchema>;
+
+export type DocsSearchParams = z.infer<typeof DocsSearchParamsSchema>;
+
+export type ExplainRequestParams = z.infer<typeof ExplainRequestParamsSchema>;
+
+export type BeaconValidationParams = z.infer<typeof BeaconValidationParamsSchema>;
+
+export type FeedValidationParams = z.infer<typeof FeedValidationParamsSchema>;
+
+export type ListRulesParams = z.infer<typeof ListRulesParamsSchema>;
+
+export type ApiGuideOutput = z.infer<typeof ApiGuideOutputSchema>;
+
+export type ParameterGuideOutput = z.infer<typeof ParameterGuideOutputSchema>;
+
+export type CodeGeneratorOutput = z.infer<typeof CodeGeneratorOutputSchema>;
+
+export type CodeValidationOutput = z.infer<typeof CodeValidationOutputSchema>;
+
+export type DocsSearchOutput = z.infer<typeof DocsSearchOutputSchema>;
+
+export type ListRulesOutput = z.infer<typeof ListRulesOutputSchema>;
+
+export type ValidationFinding = z.infer<typeof ValidationFindingSchema>;
+
+// Language and file extension of the code each platform's templates are written in
+const TEMPLATE_FILE_TYPES: Record<string, { language: string; extension: string }> = {
+  javascript: { language: "javascript", extension: "js" },
+  php: { language: "php", extension: "php" },
+  python: { language: "python", extension: "py" },
+  shopify: { language: "liquid", extension: "liquid" },
+  "bigcommerce-stencil": { language: "handlebars", extension: "html" },
+  "bigcommerce-blueprint": { language: "html", extension: "html" },
+  magento1: { language: "php", extension: "phtml" },
+  magento2: { language: "php", extension: "phtml" },
+  miva: { language: "html", extension: "mvt" },
+  commercev3: { language: "smarty", extension: "tpl" },
+  "3dcart": { language: "html", extension: "html" },
+  volusion: { language: "html", extension: "html" },
+};
+
+const DEFAULT_FILE_TYPE = { language: "html", extension: "html" };
+
+// IntelliSuggest call each tracking event makes, for the console check shown with supplied values
+const TRACKING_CALLS: Record<string, string> = { product: "ss.track.product.view", cart: "ss.track.cart.add", sale: "ss.track.purchase.buy" };
+
+const DEFAULT_TRACKING_VALUES = { sku: "PRODUCT_SKU", price: 99.99, quantity: 1 };
+
+// Shopify checkout extensibility runs no theme code on the thank-you page, so sales are tracked by a Web Pixel extension
+const SHOPIFY_WEB_PIXEL = { extension: "shopify-web-pixel", path: "extensions/searchspring-web-pixel" };
+
+const EXTENSION_FILE_LANGUAGES: Record<string, string> = { toml: "toml", json: "json", js: "javascript" };
+
+// Search result events are sent to the Beacon API rather than through IntelliSuggest
+const BEACON_TRACKING_EVENTS = ["impression", "search-click"];
+
+// Escape a value for a single-quoted JavaScript string inside an inline <script>
+function escapeJsString(value: string): string {
+  return value.replace(/[\\']/g, "\\$&").replace(/<\//g, "<\\/");
 }
 
-export interface ApiGuideParams {
-  api: "search" | "autocomplete" | "suggest" | "trending" | "recommendations" | "finder" | "beacon" | "bulk-index";
-}
-
-export interface ParameterGuideParams {
-  api: "search" | "autocomplete" | "suggest" | "trending" | "recommendations" | "finder" | "beacon" | "bulk-index";
-  parameter: string;
-}
-
-export interface CodeGeneratorParams {
-  api: "search" | "autocomplete" | "suggest" | "trending" | "recommendations" | "finder" | "beacon" | "bulk-index" | "tracking";
-  platform: "shopify" | "bigcommerce" | "magento1" | "magento2" | "miva" | "commercev3" | "3dcart" | "volusion" | "javascript" | "php" | "python" | "custom";
-  eventType?: "product" | "cart" | "sale" | "search-click" | "impression";
-  useCase?: string;
-}
+const SEVERITY_ICONS: Record<ValidationFinding["severity"], string> = { error: "❌ ", pass: "✅ ", warning: "⚠️  ", suggestion: "💡 " };
 
 export class SearchspringClient {
   private config: SearchspringConfig;
+  private knowledgeBase: KnowledgeBase;
+  private docsIndex?: DocsIndex;
+  private ruleConfig: RuleConfig;
 
-  constructor(config: SearchspringConfig) {
+  constructor(config: SearchspringConfig, knowledgeBase: KnowledgeBase = loadKnowledgeBase(config.contentDir)) {
     this.config = config;
+    this.ruleConfig = config.rulesFile ? loadRuleConfig(config.rulesFile) : {};
+    this.knowledgeBase = knowledgeBase;
+  }
+
+  // Resolve a tool's file path, keeping it inside SEARCHSPRING_FILE_ROOT when one is configured
+  private resolveFile(path: string): string {
+    const { fileRoot, confineFiles } = this.config;
+    if (!fileRoot) {
+      if (confineFiles) {
+        throw new Error("File tools are disabled in HTTP mode - set SEARCHSPRING_FILE_ROOT to the directory feeds and exports may be read from and written to");
+      }
+      return path;
+    }
+
+    const root = realpathSync(fileRoot);
+    const resolved = resolve(root, path);
+    // Symlinks are followed for the file, or for its directory when the file does not exist yet
+    let real: string;
+    try {
+      real = realpathSync(resolved);
+    } catch {
+      try {
+        real = join(realpathSync(dirname(resolved)), basename(resolved));
+      } catch {
+        real = resolved;
+      }
+    }
+    for (const candidate of [resolved, real]) {
+      if (candidate !== root && !candidate.startsWith(root + sep)) {
+        throw new Error(`${path} is outside SEARCHSPRING_FILE_ROOT (${root})`);
+      }
+    }
+    return resolved;
   }
 
   private getSiteIdOrExample(): string {
@@ -49,326 +177,62 @@ export class SearchspringClient {
     return text;
   }
 
-  async getApiGuide(params: ApiGuideParams) {
-    const { api } = params;
-
+  private getApiGuides(): Record<string, ApiGuideContent> {
     const siteId = this.getSiteIdOrExample();
+    const context = { siteId, endpoints: resolveEndpoints(siteId) };
+
+    return Object.fromEntries(
+      Object.entries(this.knowledgeBase.guides).map(([api, guide]) => [
+        api,
+        { ...guide, example: renderTemplate(guide.example, context) },
+      ])
+    );
+  }
 
-    const apiGuides = {
-      search: {
-        name: "Search API",
-        description: "Full-text product search with filtering, sorting, and pagination",
-        endpoint: `https://${siteId}.a.searchspring.io/api/search/search.json`,
-        requiredParams: ["siteId", "resultsFormat", "userId", "sessionId", "pageLoadId", "domain"],
-        optionalParams: ["q", "page", "resultsPerPage", "filter.*", "bgfilter.*", "sort.*", "redirectResponse", "landingPage", "tag", "includedFacets", "excludedFacets", "disableInlineBanners", "lastViewed", "cart", "shopper"],
-        example: `fetch('https://${siteId}.a.searchspring.io/api/search/search.json?siteId=${siteId}&resultsFormat=json&q=shoes&userId=user123&sessionId=session456&pageLoadId=page789&domain=https://yoursite.com')
-  .then(response => response.json())
-  .then(data => {
-    console.log('Total results:', data.pagination.totalResults);
-    data.results.forEach(product => {
-      console.log(product.title, product.price);
-    });
-  })
-  .catch(error => console.error('Search error:', error));`,
-        useCases: [
-          "Product catalog search",
-          "Category page filtering",
-          "Search results page",
-          "Faceted navigation"
-        ],
-        bestPractices: [
-          "Always include tracking parameters: userId (from ssUserId cookie), sessionId (from ssSessionIdNamespace cookie), pageLoadId (UUID v4), domain (window.location.href)",
-          "Use background filters (bgfilter.*) for permanent filtering, not filter.*",
-          "Implement proper error handling with .catch()",
-          "Use debouncing for real-time search (minimum 50ms for autocomplete)",
-          "Include pagination for large result sets",
-          "Use query parameter (q) for all search requests"
-        ]
-      },
-      autocomplete: {
-        name: "Autocomplete API",
-        description: "Real-time product preview as user types - REQUIRED for autocomplete functionality (not Search API)",
-        endpoint: `https://${siteId}.a.searchspring.io/api/search/autocomplete.json`,
-        requiredParams: ["siteId", "resultsFormat", "userId", "sessionId", "pageLoadId", "domain"],
-        optionalParams: ["q", "resultsPerPage", "page", "filter.*", "bgfilter.*", "sort.*", "redirectResponse", "lastViewed", "cart", "shopper"],
-        example: `const searchInput = document.getElementById('search');
-let debounceTimer;
-
-searchInput.addEventListener('input', function(e) {
-  clearTimeout(debounceTimer);
-  const query = e.target.value;
-
-  if (query.length >= 2) {
-    debounceTimer = setTimeout(() => {
-      fetchAutocomplete(query);
-    }, 50); // 50ms debounce as recommended by Searchspring docs
+  private getParameterGuides(): Record<string, Record<string, ParameterGuideContent>> {
+    return this.knowledgeBase.parameters;
   }
-});
-
-function fetchAutocomplete(query) {
-  fetch('https://${siteId}.a.searchspring.io/api/search/autocomplete.json?siteId=${siteId}&resultsFormat=json&q=' + query + '&userId=user123&sessionId=session456&pageLoadId=page789&domain=https://yoursite.com')
-    .then(response => response.json())
-    .then(data => displaySuggestions(data))
-    .catch(error => console.error('Autocomplete error:', error));
-}`,
-        useCases: [
-          "Search input suggestions",
-          "Product finder autocomplete",
-          "Category autocomplete",
-          "Brand/attribute suggestions"
-        ],
-        bestPractices: [
-          "Use debouncing (300ms delay recommended)",
-          "Start suggesting after 2+ characters",
-          "Limit results to 8-10 suggestions",
-          "Handle keyboard navigation (up/down arrows)",
-          "Clear suggestions on blur or escape"
-        ]
-      },
-      suggest: {
-        name: "Suggest API",
-        description: "Spell correction and alternative search term suggestions",
-        endpoint: `https://${siteId}.a.searchspring.io/api/suggest/query`,
-        requiredParams: ["siteId"],
-        optionalParams: ["q", "language", "suggestionCount", "productCount"],
-        example: `function getSuggestions(query) {
-  fetch('https://${siteId}.a.searchspring.io/api/suggest/query?siteId=${siteId}&q=' + query + '&language=en&suggestionCount=4')
-    .then(response => response.json())
-    .then(data => {
-      if (data.spellCorrection && data.spellCorrection.corrected) {
-        showSpellCorrection(data.spellCorrection.corrected);
-      }
-      if (data.suggestions && data.suggestions.length > 0) {
-        showAlternativeSuggestions(data.suggestions);
-      }
-    })
-    .catch(error => console.error('Suggest error:', error));
-}`,
-        useCases: [
-          "Spell correction for misspelled queries",
-          "Alternative search suggestions",
-          "No results page suggestions",
-          "Query expansion"
-        ],
-        bestPractices: [
-          "Show spell corrections prominently",
-          "Limit suggestions to 3-5 alternatives",
-          "Use on no-results pages",
-          "Consider user's language/locale"
-        ]
-      },
-      trending: {
-        name: "Trending API",
-        description: "Popular search terms and trending content",
-        endpoint: `https://${siteId}.a.searchspring.io/api/suggest/trending`,
-        requiredParams: ["siteId"],
-        optionalParams: ["limit"],
-        example: `function loadTrendingTerms() {
-  fetch('https://${siteId}.a.searchspring.io/api/suggest/trending?siteId=${siteId}&limit=6')
-    .then(response => response.json())
-    .then(data => {
-      const container = document.getElementById('trending-terms');
-      data.terms.forEach(term => {
-        const link = document.createElement('a');
-        link.href = '/search?q=' + encodeURIComponent(term.query);
-        link.textContent = term.query;
-        container.appendChild(link);
-      });
-    })
-    .catch(error => console.error('Trending error:', error));
-}`,
-        useCases: [
-          "Homepage trending searches",
-          "No results page alternatives",
-          "Popular content widgets",
-          "Search inspiration"
-        ],
-        bestPractices: [
-          "Update trending terms regularly",
-          "Limit to 5-8 terms for better UX",
-          "Use on homepage and no-results pages",
-          "Make terms clickable for easy searching"
-        ]
-      },
-      recommendations: {
-        name: "Recommendations API",
-        description: "Personalized product recommendations",
-        endpoint: `https://${siteId}.a.searchspring.io/boost/${siteId}/recommend`,
-        requiredParams: ["tags"],
-        optionalParams: ["products", "blockedItems", "categories", "brands", "shopper", "cart", "lastViewed", "limits", "filter.*"],
-        example: `function getRecommendations() {
-  const params = new URLSearchParams({
-    tags: 'similar-products,trending',
-    products: 'PRODUCT-123',
-    limits: '5,10',
-    shopper: 'user123'
-  });
-
-  fetch('https://${siteId}.a.searchspring.io/boost/${siteId}/recommend?' + params)
-    .then(response => response.json())
-    .then(data => {
-      data.profiles.forEach(profile => {
-        console.log('Profile:', profile.tag);
-        profile.results.forEach(product => {
-          console.log(' -', product.title, product.price);
-        });
-      });
-    })
-    .catch(error => console.error('Recommendations error:', error));
-}`,
-        useCases: [
-          "Product page cross-sells",
-          "Homepage personalization",
-          "Cart page upsells",
-          "Related products"
-        ],
-        bestPractices: [
-          "Use multiple recommendation types (tags)",
-          "Include personalization data (shopper, cart, lastViewed)",
-          "Block out-of-stock or inappropriate items",
-          "Set reasonable limits per profile"
-        ]
-      },
-      finder: {
-        name: "Finder API",
-        description: "Faceted search for building product finder interfaces - uses Search API with resultsPerPage=0",
-        endpoint: `https://${siteId}.a.searchspring.io/api/search/search.json`,
-        requiredParams: ["siteId", "resultsPerPage=0"],
-        optionalParams: ["filter.*", "bgfilter.*", "includedFacets", "excludedFacets"],
-        example: `function getFacets() {
-  fetch('https://${siteId}.a.searchspring.io/api/search/search.json?siteId=${siteId}&resultsPerPage=0&filter.category=shoes')
-    .then(response => response.json())
-    .then(data => {
-      data.facets.forEach(facet => {
-        console.log('Facet:', facet.label);
-        facet.values.forEach(value => {
-          console.log(' -', value.label, '(' + value.count + ')');
-        });
-      });
-    })
-    .catch(error => console.error('Finder error:', error));
-}`,
-        useCases: [
-          "Product finder widgets",
-          "Advanced filtering interfaces",
-          "Category navigation",
-          "Faceted search"
-        ],
-        bestPractices: [
-          "Always set resultsPerPage=0 for facets-only",
-          "Use includedFacets to limit returned facets",
-          "Apply background filters for category pages",
-          "Show facet counts for better UX"
-        ]
-      },
-      beacon: {
-        name: "Beacon API",
-        description: "Advanced event tracking for Personalized Recommendations - NOTE: For basic product tracking use IntelliSuggest ss.track.* methods",
-        endpoint: `https://beacon.searchspring.io/api/event`,
-        requiredParams: ["array of event objects with: category, context, event, id, type"],
-        optionalParams: ["pid (for profile.product.* events)"],
-        example: `function trackEvent(eventType, eventData) {
-  const payload = {
-    type: eventType,
-    category: 'searchspring.recommendations.user-interactions',
-    siteId: '${siteId}',
-    id: 'event-' + Date.now(),
-    userid: 'user123',
-    sessionid: 'session456',
-    data: eventData,
-    context: {
-      website: { trackingCode: '${siteId}' },
-      page: { url: window.location.href }
-    }
-  };
-
-  fetch('https://beacon.searchspring.io/api/event', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(payload)
-  })
-  .then(response => response.json())
-  .then(data => console.log('Event tracked:', data))
-  .catch(error => console.error('Tracking error:', error));
-}`,
-        useCases: [
-          "Recommendation impression tracking",
-          "Click-through analytics",
-          "User behavior analytics",
-          "Custom event tracking"
-        ],
-        bestPractices: [
-          "Use consistent event categories",
-          "Include user and session identifiers",
-          "Batch events when possible",
-          "Handle tracking failures gracefully",
-          "Include relevant context data"
-        ]
-      },
-      "bulk-index": {
-        name: "Bulk Indexing API",
-        description: "Bulk product data indexing and management",
-        endpoint: `https://index-api.searchspring.net/api/index/feed`,
-        requiredParams: ["feedId"],
-        optionalParams: ["requestedBy"],
-        example: `// Platform-specific bulk indexing implementation
-// For cart platforms (Shopify, BigCommerce) - use PUT method
-function triggerCartPlatformIndex(feedId, secretKey) {
-  // Authentication via URL (siteId:secretKey@host)
-  const url = 'https://${siteId}:' + secretKey + '@index-api.searchspring.net/api/index/feed?feedId=' + feedId;
-
-  fetch(url, {
-    method: 'PUT' // Downloads feed from cart platform
-  })
-  .then(response => response.json())
-  .then(data => {
-    if (data.success) {
-      console.log('Bulk index triggered successfully');
-    }
-  })
-  .catch(error => console.error('Bulk index error:', error));
-}
 
-// For custom feeds - use POST with file upload
-function uploadCustomFeed(feedId, secretKey, feedFile) {
-  const formData = new FormData();
-  formData.append('feedFile', feedFile);
-
-  const url = 'https://${siteId}:' + secretKey + '@index-api.searchspring.net/api/index/feed?feedId=' + feedId;
-
-  fetch(url, {
-    method: 'POST',
-    body: formData // multipart/form-data
-  })
-  .then(response => response.json())
-  .then(data => console.log('Feed uploaded:', data))
-  .catch(error => console.error('Upload error:', error));
-}`,
-        useCases: [
-          "Product catalog updates",
-          "Inventory synchronization",
-          "Scheduled data imports",
-          "Content management integration"
-        ],
-        bestPractices: [
-          "Use PUT method for cart platforms (Shopify, BigCommerce, etc.)",
-          "Use POST method for custom feed uploads",
-          "Authentication: siteId:secretKey@ in URL (not headers)",
-          "Check status endpoint before triggering new index",
-          "Only one index per hour allowed",
-          "Use multipart/form-data for POST requests"
-        ]
-      }
-    };
+  // Names of every API with an implementation guide
+  getApiNames(): ApiGuideParams["api"][] {
+    return Object.keys(this.getApiGuides()) as ApiGuideParams["api"][];
+  }
+
+  // Names of every parameter with a parameter guide, keyed by API
+  getParameterNames(): Record<string, string[]> {
+    const parameterGuides = this.getParameterGuides();
+    return Object.fromEntries(
+      Object.entries(parameterGuides).map(([api, params]) => [api, Object.keys(params)])
+    );
+  }
+
+  async getApiGuide(params: ApiGuideParams): Promise<CallToolResult> {
+    const { api } = params;
+
+    const apiGuides = this.getApiGuides();
 
     const guide = apiGuides[api];
     if (!guide) {
       throw new Error(`Unknown API: ${api}`);
     }
 
+    const endpoint = resolveEndpoint(api, this.getSiteIdOrExample());
+
+    const structured: ApiGuideOutput = {
+      api,
+      name: guide.name,
+      description: guide.description,
+      endpoint: endpoint.url,
+      requiredParams: endpoint.requiredParams,
+      optionalParams: endpoint.optionalParams,
+      example: guide.example,
+      useCases: guide.useCases,
+      bestPractices: guide.bestPractices,
+      documentationUrl: `https://docs.searchspring.com/api/${api}/`,
+    };
+
     return {
+      structuredContent: structured,
       content: [
         {
           type: "text",
@@ -377,13 +241,13 @@ function uploadCustomFeed(feedId, secretKey, feedFile) {
 ## Overview
 ${guide.description}
 
-**API Endpoint**: ${guide.endpoint}
+**API Endpoint**: ${endpoint.methods.join('/')} ${endpoint.url}
 
 ## Required Parameters
-${guide.requiredParams.map(param => `- \`${param}\``).join('\n')}
+${endpoint.requiredParams.map(param => `- \`${param}\``).join('\n')}
 
 ## Optional Parameters
-${guide.optionalParams.map(param => `- \`${param}\``).join('\n')}
+${endpoint.optionalParams.map(param => `- \`${param}\``).join('\n')}
 
 ## Implementation Example
 \`\`\`javascript
@@ -405,218 +269,16 @@ ${guide.bestPractices.map(practice => `- ${practice}`).join('\n')}
     };
   }
 
-  async getParameterGuide(params: ParameterGuideParams) {
+  async getParameterGuide(params: ParameterGuideParams): Promise<CallToolResult> {
     const { api, parameter } = params;
 
-    const parameterGuides: Record<string, Record<string, any>> = {
-      search: {
-        q: {
-          description: "Search query string - the terms users want to search for",
-          type: "string",
-          example: "running shoes",
-          bestPractices: [
-            "URL encode special characters",
-            "Trim whitespace before sending",
-            "Consider query preprocessing (stemming, synonyms)",
-            "Handle empty queries gracefully"
-          ],
-          useCases: ["Product search", "Site search", "Autocomplete"],
-          relatedParams: ["redirectResponse", "landingPage"]
-        },
-        filters: {
-          description: "Apply filters to search results using filter.{field}=value format",
-          type: "object",
-          example: "filter.brand=Nike&filter.color=blue&filter.price=50-100",
-          bestPractices: [
-            "Use exact field names from your product data",
-            "For multiple values: filter.brand=Nike&filter.brand=Adidas",
-            "For ranges: filter.price=min-max",
-            "URL encode filter values"
-          ],
-          useCases: ["Category filtering", "Faceted navigation", "Price filtering"],
-          relatedParams: ["bgfilters", "includedFacets", "excludedFacets"]
-        },
-        bgfilters: {
-          description: "Background filters applied permanently, not visible to users",
-          type: "object",
-          example: "bgfilter.status=active&bgfilter.visibility=public",
-          bestPractices: [
-            "Use for system-level filtering (active products, visible items)",
-            "Hide discontinued or out-of-stock products",
-            "Apply site-specific rules",
-            "Don't expose in filter UI"
-          ],
-          useCases: ["Product visibility", "Inventory filtering", "Site restrictions"],
-          relatedParams: ["filters"]
-        },
-        sort: {
-          description: "Sort search results by field and direction",
-          type: "object",
-          example: "sort.price=asc&sort.popularity=desc",
-          bestPractices: [
-            "Primary sort first, secondary sort second",
-            "Use 'asc' for ascending, 'desc' for descending",
-            "Common sorts: price, popularity, title, date",
-            "Provide sort options to users"
-          ],
-          useCases: ["Price sorting", "Popularity sorting", "Name sorting", "Date sorting"],
-          relatedParams: ["resultsPerPage", "page"]
-        },
-        userId: {
-          description: "Unique identifier for tracking user behavior - sourced from ssUserId cookie",
-          type: "string",
-          example: "value from ssUserId cookie",
-          bestPractices: [
-            "Always get value from ssUserId cookie",
-            "Automatically set by Searchspring tracking",
-            "Do not manually generate - use cookie value",
-            "Required for analytics and personalization"
-          ],
-          useCases: ["User tracking", "Personalization", "Analytics"],
-          relatedParams: ["sessionId", "pageLoadId", "domain"]
-        },
-        sessionId: {
-          description: "Session identifier for tracking user journey - sourced from ssSessionIdNamespace cookie",
-          type: "string",
-          example: "value from ssSessionIdNamespace cookie",
-          bestPractices: [
-            "Always get value from ssSessionIdNamespace cookie",
-            "Automatically set by Searchspring tracking",
-            "Do not manually generate - use cookie value",
-            "Used for analytics and behavior tracking"
-          ],
-          useCases: ["Session tracking", "User journey analysis", "Analytics"],
-          relatedParams: ["userId", "pageLoadId"]
-        },
-        pageLoadId: {
-          description: "Unique identifier for each page load/search - should be UUID v4",
-          type: "string",
-          example: "e560933a-b0fe-408d-8df5-807270e79fb8",
-          bestPractices: [
-            "Generate new UUID v4 for each page load",
-            "Update on every physical page load",
-            "For SPA/headless: update on URL route change",
-            "Critical for proper analytics tracking"
-          ],
-          useCases: ["Search tracking", "Click analytics", "Performance monitoring"],
-          relatedParams: ["userId", "sessionId", "domain"]
-        },
-        domain: {
-          description: "Current page URL - should be window.location.href",
-          type: "string",
-          example: "https://yoursite.com/search?q=shoes",
-          bestPractices: [
-            "Always use window.location.href value",
-            "Include full URL with protocol and parameters",
-            "Required for proper analytics and personalization",
-            "Do not hardcode - get dynamically"
-          ],
-          useCases: ["Page tracking", "Analytics", "Personalization context"],
-          relatedParams: ["userId", "sessionId", "pageLoadId"]
-        }
-      },
-      autocomplete: {
-        q: {
-          description: "Partial search query for autocomplete suggestions",
-          type: "string",
-          example: "runn (user typing 'running')",
-          bestPractices: [
-            "Start suggestions after 2+ characters",
-            "Use debouncing (50ms delay recommended by Searchspring)",
-            "Handle special characters properly",
-            "Clear suggestions when query is empty"
-          ],
-          useCases: ["Search input autocomplete", "Product suggestions", "Query completion"],
-          relatedParams: ["resultsPerPage"]
-        }
-      },
-      recommendations: {
-        tags: {
-          description: "Recommendation profile tags/IDs that define recommendation types",
-          type: "array",
-          example: "['similar-products', 'trending', 'recently-viewed']",
-          bestPractices: [
-            "Use meaningful profile names",
-            "Configure profiles in Searchspring dashboard first",
-            "Combine multiple recommendation types",
-            "Order by priority/importance"
-          ],
-          useCases: ["Product recommendations", "Cross-selling", "Upselling", "Related products"],
-          relatedParams: ["limits", "products", "shopper"]
-        },
-        limits: {
-          description: "Maximum number of products per recommendation profile",
-          type: "array",
-          example: "[5, 10, 3] (corresponds to tags array order)",
-          bestPractices: [
-            "Match array length to tags array",
-            "Consider page layout constraints",
-            "Balance variety vs. performance",
-            "Typical limits: 4-12 products"
-          ],
-          useCases: ["Controlling recommendation quantity", "Layout optimization"],
-          relatedParams: ["tags"]
-        },
-        shopper: {
-          description: "Logged-in user identifier for personalization",
-          type: "string",
-          example: "user-12345",
-          bestPractices: [
-            "Use only for authenticated users",
-            "Consistent with your user system",
-            "Improves recommendation quality",
-            "Don't use for anonymous users"
-          ],
-          useCases: ["Personalized recommendations", "User-specific suggestions"],
-          relatedParams: ["cart", "lastViewed"]
-        }
-      },
-      beacon: {
-        type: {
-          description: "Event type identifier for analytics tracking",
-          type: "string",
-          example: "profile.impression, profile.click, custom.event",
-          bestPractices: [
-            "Use descriptive event names",
-            "Follow consistent naming conventions",
-            "Group related events with prefixes",
-            "Document custom event types"
-          ],
-          useCases: ["Event categorization", "Analytics filtering", "Reporting"],
-          relatedParams: ["category", "data"]
-        },
-        category: {
-          description: "Event category for grouping analytics events",
-          type: "string",
-          example: "searchspring.recommendations.user-interactions",
-          bestPractices: [
-            "Use Searchspring standard categories when possible",
-            "Create logical category hierarchies",
-            "Document custom categories",
-            "Keep category names consistent"
-          ],
-          useCases: ["Analytics grouping", "Event filtering", "Reporting dashboards"],
-          relatedParams: ["type", "data"]
-        },
-        data: {
-          description: "Event payload containing specific event data",
-          type: "object",
-          example: "{profile: {tag: 'similar-products'}, product: {id: 'SKU123'}}",
-          bestPractices: [
-            "Include relevant event context",
-            "Keep payload size reasonable",
-            "Use consistent data structure",
-            "Validate data before sending"
-          ],
-          useCases: ["Event details", "Analytics context", "Personalization data"],
-          relatedParams: ["type", "context"]
-        }
-      }
-    };
+    const parameterGuides = this.getParameterGuides();
 
     const apiParams = parameterGuides[api];
     if (!apiParams) {
+      const structured: ParameterGuideOutput = { api, parameter, found: false, availableParameters: [] };
       return {
+        structuredContent: structured,
         content: [
           {
             type: "text",
@@ -626,10 +288,12 @@ ${guide.bestPractices.map(practice => `- ${practice}`).join('\n')}
       };
     }
 
-    const paramGuide = apiParams[parameter];
+    const [, paramGuide] = findParameterGuide(apiParams, parameter) ?? [];
     if (!paramGuide) {
       const availableParams = Object.keys(apiParams);
+      const structured: ParameterGuideOutput = { api, parameter, found: false, availableParameters: availableParams };
       return {
+        structuredContent: structured,
         content: [
           {
             type: "text",
@@ -644,7 +308,21 @@ Use one of these parameter names to get detailed guidance.`,
       };
     }
 
+    const structured: ParameterGuideOutput = {
+      api,
+      parameter,
+      found: true,
+      description: paramGuide.description,
+      type: paramGuide.type,
+      example: paramGuide.example,
+      bestPractices: paramGuide.bestPractices,
+      useCases: paramGuide.useCases,
+      relatedParams: paramGuide.relatedParams,
+      availableParameters: Object.keys(apiParams),
+    };
+
     return {
+      structuredContent: structured,
       content: [
         {
           type: "text",
@@ -677,469 +355,69 @@ ${paramGuide.relatedParams.map((param: string) => `- \`${param}\``).join('\n')}
     };
   }
 
-  async generateCode(params: CodeGeneratorParams) {
-    const { api, platform, eventType, useCase } = params;
+  async generateCode(params: CodeGeneratorParams): Promise<CallToolResult> {
+    const { api, platform, eventType, useCase, sku, price, quantity } = params;
 
     // For backward compatibility, handle "tracking" as legacy alias
     const targetApi = api === "tracking" ? "beacon" : api;
 
     if (targetApi === "beacon" && eventType) {
-      return this.generateTrackingCode(platform, eventType);
+      return this.generateTrackingCode({ platform, eventType, sku, price, quantity });
     }
 
     return this.generateApiCode(targetApi, platform, useCase);
   }
 
-  private async generateApiCode(api: string, platform: string, useCase?: string) {
-    const siteId = this.getSiteIdOrExample();
-    // Generate implementation code for specific APIs
-    const codeTemplates: Record<string, Record<string, string>> = {
-      search: {
-        javascript: `// Search API implementation
-function searchProducts(query, filters = {}) {
-  const params = new URLSearchParams({
-    siteId: '${siteId}',
-    resultsFormat: 'json',
-    q: query,
-    userId: getUserId(),
-    sessionId: getSessionId(),
-    pageLoadId: getPageLoadId(),
-    domain: window.location.origin
-  });
-
-  // Add filters
-  Object.entries(filters).forEach(([key, value]) => {
-    params.append(\`filter.\${key}\`, value);
-  });
-
-  fetch('https://${siteId}.a.searchspring.io/api/search/search.json?' + params)
-    .then(response => response.json())
-    .then(data => {
-      console.log('Total results:', data.pagination.totalResults);
-      displaySearchResults(data.results);
-    })
-    .catch(error => console.error('Search error:', error));
-}`,
-        shopify: `<!-- Shopify search implementation -->
-<form action="/search" method="get">
-  <input type="text" name="q" placeholder="Search products..." />
-  <button type="submit">Search</button>
-</form>
-
-<script>
-// Enhanced search with Searchspring API
-document.querySelector('form').addEventListener('submit', function(e) {
-  e.preventDefault();
-  const query = this.querySelector('input[name="q"]').value;
-
-  fetch('https://${siteId}.a.searchspring.io/api/search/search.json?siteId=${siteId}&resultsFormat=json&q=' + query + '&userId={{ customer.id | default: "anonymous" }}&sessionId={{ session.id }}&domain={{ shop.permanent_domain }}')
-    .then(response => response.json())
-    .then(data => displayResults(data))
-    .catch(error => console.error('Search error:', error));
-});
-</script>`
-      },
-      autocomplete: {
-        javascript: `// Autocomplete implementation
-const searchInput = document.getElementById('search');
-let debounceTimer;
-
-searchInput.addEventListener('input', function(e) {
-  clearTimeout(debounceTimer);
-  const query = e.target.value;
-
-  if (query.length < 2) return;
-
-  debounceTimer = setTimeout(() => {
-    const params = new URLSearchParams({
-      siteId: '${siteId}',
-      resultsFormat: 'json',
-      q: query,
-      userId: getUserId(),
-      sessionId: getSessionId()
-    });
-
-    fetch('https://${siteId}.a.searchspring.io/api/search/autocomplete.json?' + params)
-      .then(response => response.json())
-      .then(data => displayAutocomplete(data.suggestions))
-      .catch(error => console.error('Autocomplete error:', error));
-  }, 300);
-});`,
-        shopify: `<!-- Shopify autocomplete implementation -->
-<div class="search-autocomplete">
-  <input type="text" id="search-input" placeholder="Search products..." />
-  <div id="autocomplete-results"></div>
-</div>
-
-<script>
-const searchInput = document.getElementById('search-input');
-const resultsDiv = document.getElementById('autocomplete-results');
-let debounceTimer;
-
-searchInput.addEventListener('input', function(e) {
-  clearTimeout(debounceTimer);
-  const query = e.target.value;
-
-  if (query.length < 2) {
-    resultsDiv.innerHTML = '';
-    return;
+  private fileTypeFor(templateKey: string) {
+    return TEMPLATE_FILE_TYPES[templateKey] ?? DEFAULT_FILE_TYPE;
   }
 
-  debounceTimer = setTimeout(() => {
-    fetch('https://${siteId}.a.searchspring.io/api/search/autocomplete.json?siteId=${siteId}&resultsFormat=json&q=' + query + '&userId={{ customer.id | default: "anonymous" }}&sessionId={{ session.id }}')
-      .then(response => response.json())
-      .then(data => {
-        resultsDiv.innerHTML = data.suggestions.map(s =>
-          '<div class="suggestion" onclick="selectSuggestion("' + s.text + '")">' + s.text + '</div>'
-        ).join('');
-      })
-      .catch(error => console.error('Autocomplete error:', error));
-  }, 300);
-});
-</script>`
-      },
-      suggest: {
-        javascript: `// Suggest API implementation
-function getSuggestions(query) {
-  const params = new URLSearchParams({
-    siteId: '${siteId}',
-    resultsFormat: 'json',
-    q: query,
-    userId: getUserId(),
-    sessionId: getSessionId()
-  });
-
-  fetch('https://${siteId}.a.searchspring.io/api/suggest/query?' + params)
-    .then(response => response.json())
-    .then(data => {
-      if (data.suggested) {
-        console.log('Did you mean:', data.suggested);
-        displaySuggestion(data.suggested);
-      }
-    })
-    .catch(error => console.error('Suggest error:', error));
-}`,
-        shopify: `<!-- Shopify spell check implementation -->
-<script>
-function checkSpelling(query) {
-  fetch('https://${siteId}.a.searchspring.io/api/suggest/query?siteId=${siteId}&resultsFormat=json&q=' + query + '&userId={{ customer.id | default: "anonymous" }}&sessionId={{ session.id }}')
-    .then(response => response.json())
-    .then(data => {
-      if (data.suggested && data.suggested !== query) {
-        document.getElementById('suggestion').innerHTML =
-          'Did you mean: <a href="/search?q=' + data.suggested + '">' + data.suggested + '</a>?';
-      }
-    });
-}
-</script>`
-      },
-      trending: {
-        javascript: `// Trending API implementation
-function getTrendingSearches() {
-  const params = new URLSearchParams({
-    siteId: '${siteId}',
-    resultsFormat: 'json',
-    userId: getUserId(),
-    sessionId: getSessionId()
-  });
-
-  fetch('https://${siteId}.a.searchspring.io/api/search/trending.json?' + params)
-    .then(response => response.json())
-    .then(data => {
-      console.log('Trending searches:', data.trending);
-      displayTrendingSearches(data.trending);
-    })
-    .catch(error => console.error('Trending error:', error));
-}`,
-        shopify: `<!-- Shopify trending searches implementation -->
-<div class="trending-searches">
-  <h3>Trending Searches</h3>
-  <div id="trending-list"></div>
-</div>
-
-<script>
-fetch('https://${siteId}.a.searchspring.io/api/search/trending.json?siteId=${siteId}&resultsFormat=json&userId={{ customer.id | default: "anonymous" }}&sessionId={{ session.id }}')
-  .then(response => response.json())
-  .then(data => {
-    const trendingList = document.getElementById('trending-list');
-    trendingList.innerHTML = data.trending.map(term =>
-      '<a href="/search?q=' + term + '" class="trending-term">' + term + '</a>'
-    ).join('');
-  })
-  .catch(error => console.error('Trending error:', error));
-</script>`
-      },
-      recommendations: {
-        javascript: `// Recommendations API implementation
-function getRecommendations(options = {}) {
-  const params = new URLSearchParams({
-    siteId: '${siteId}',
-    resultsFormat: 'json',
-    userId: getUserId(),
-    sessionId: getSessionId(),
-    pageLoadId: getPageLoadId(),
-    domain: window.location.origin,
-    ...options
-  });
-
-  fetch('https://${siteId}.a.searchspring.io/api/recommend/recommend.json?' + params)
-    .then(response => response.json())
-    .then(data => {
-      console.log('Recommendations:', data.results);
-      displayRecommendations(data.results);
-    })
-    .catch(error => console.error('Recommendations error:', error));
-}`,
-        shopify: `<!-- Shopify recommendations implementation -->
-<div class="product-recommendations">
-  <h3>Recommended Products</h3>
-  <div id="recommendations-grid"></div>
-</div>
-
-<script>
-fetch('https://${siteId}.a.searchspring.io/api/recommend/recommend.json?siteId=${siteId}&resultsFormat=json&userId={{ customer.id | default: "anonymous" }}&sessionId={{ session.id }}&domain={{ shop.permanent_domain }}')
-  .then(response => response.json())
-  .then(data => {
-    const grid = document.getElementById('recommendations-grid');
-    grid.innerHTML = data.results.map(product =>
-      '<div class="product-card"><img src="' + product.imageUrl + '"><h4>' + product.name + '</h4><p>$' + product.price + '</p></div>'
-    ).join('');
-  })
-  .catch(error => console.error('Recommendations error:', error));
-</script>`
-      },
-      finder: {
-        javascript: `// Finder API implementation
-function buildProductFinder() {
-  const params = new URLSearchParams({
-    siteId: '${siteId}',
-    resultsFormat: 'json',
-    userId: getUserId(),
-    sessionId: getSessionId()
-  });
-
-  fetch('https://${siteId}.a.searchspring.io/api/search/search.json?resultsPerPage=0&' + params)
-    .then(response => response.json())
-    .then(data => {
-      console.log('Finder facets:', data.facets);
-      buildFinderInterface(data.facets);
-    })
-    .catch(error => console.error('Finder error:', error));
-}`,
-        shopify: `<!-- Shopify product finder implementation -->
-<div class="product-finder">
-  <h3>Find Your Perfect Product</h3>
-  <div id="finder-facets"></div>
-  <div id="finder-results"></div>
-</div>
-
-<script>
-fetch('https://${siteId}.a.searchspring.io/api/search/search.json?siteId=${siteId}&resultsPerPage=0&resultsFormat=json&userId={{ customer.id | default: "anonymous" }}&sessionId={{ session.id }}')
-  .then(response => response.json())
-  .then(data => {
-    const facetsDiv = document.getElementById('finder-facets');
-    facetsDiv.innerHTML = data.facets.map(facet =>
-      '<div class="facet"><label>' + facet.label + '</label><select data-facet="' + facet.field + '">' +
-      facet.values.map(v => '<option value="' + v.value + '">' + v.label + '</option>').join('') +
-      '</select></div>'
-    ).join('');
-  })
-  .catch(error => console.error('Finder error:', error));
-</script>`
-      },
-      beacon: {
-        javascript: `// Beacon API for Personalized Recommendations tracking
-// NOTE: This is for recommendations beacon tracking, not basic product tracking
-// For basic IntelliSuggest tracking use ss.track.* methods instead
-
-function trackRecommendationEvent(events) {
-  // Events should be an array of event objects
-  fetch('https://beacon.searchspring.io/api/event', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(events)
-  })
-  .then(response => response.json())
-  .then(data => console.log('Recommendation events tracked:', data))
-  .catch(error => console.error('Beacon error:', error));
-}
-
-// Example: Track profile render event
-function trackProfileRender(profileId, tag, placement) {
-  const events = [{
-    category: "searchspring.recommendations.user-interactions",
-    context: {
-      pageLoadId: getPageLoadId(),
-      userId: getUserId(),
-      sessionId: getSessionId(),
-      website: { trackingCode: '${siteId}' }
-    },
-    event: {
-      context: { type: "product-recommendation", tag: tag, placement: placement },
-      profile: { tag: tag, placement: placement, seed: [""] }
-    },
-    id: profileId,
-    type: "profile.render"
-  }];
-  trackRecommendationEvent(events);
-}`,
-        shopify: `<!-- Shopify beacon tracking for Personalized Recommendations -->
-<!-- NOTE: For basic product tracking, use IntelliSuggest ss.track.* methods instead -->
-<script>
-function trackRecommendationEvents(events) {
-  fetch('https://beacon.searchspring.io/api/event', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(events)
-  })
-  .then(response => response.json())
-  .then(result => console.log('Recommendation events tracked:', result))
-  .catch(error => console.error('Beacon error:', error));
-}
-
-// Example: Track recommendation profile impression
-function trackProfileImpression(profileId, tag, placement) {
-  const events = [{
-    category: "searchspring.recommendations.user-interactions",
-    context: {
-      pageLoadId: generateUUID(),
-      userId: '{{ customer.id | default: "anonymous" }}',
-      sessionId: '{{ session.id }}',
-      website: { trackingCode: '${siteId}' }
-    },
-    event: {
-      context: { type: "product-recommendation", tag: tag, placement: placement },
-      profile: { tag: tag, placement: placement, seed: [""] }
-    },
-    id: profileId,
-    type: "profile.impression"
-  }];
-  trackRecommendationEvents(events);
-}
-</script>`
-      },
-      "bulk-index": {
-        javascript: `// Bulk Index API implementation
-// NOTE: Use PUT for cart platforms (Shopify, BigCommerce), POST for custom feeds
-
-// For cart platforms (Shopify, BigCommerce, etc.) - triggers feed download
-function triggerBulkIndex(feedId, secretKey) {
-  const url = 'https://${siteId}:' + secretKey + '@index-api.searchspring.net/api/index/feed?feedId=' + feedId;
-
-  fetch(url, {
-    method: 'PUT'
-  })
-  .then(response => response.json())
-  .then(data => {
-    console.log('Bulk index triggered:', data);
-    if (data.success) {
-      console.log('Index successfully queued');
-      checkIndexStatus();
-    }
-  })
-  .catch(error => console.error('Bulk index error:', error));
-}
-
-// For custom feeds - uploads feed file
-function uploadCustomFeed(feedId, secretKey, feedFile) {
-  const formData = new FormData();
-  formData.append('feedFile', feedFile);
-
-  const url = 'https://${siteId}:' + secretKey + '@index-api.searchspring.net/api/index/feed?feedId=' + feedId;
-
-  fetch(url, {
-    method: 'POST',
-    body: formData
-  })
-  .then(response => response.json())
-  .then(data => {
-    console.log('Feed uploaded:', data);
-    if (data.success) {
-      console.log('Index successfully queued');
-    }
-  })
-  .catch(error => console.error('Feed upload error:', error));
-}`,
-        shopify: `<!-- Shopify Bulk Index implementation -->
-<!-- Use PUT method for cart platforms to trigger feed download -->
-<script>
-function triggerShopifyIndex(feedId, secretKey) {
-  const url = 'https://${siteId}:' + secretKey + '@index-api.searchspring.net/api/index/feed?feedId=' + feedId;
-
-  fetch(url, {
-    method: 'PUT'
-  })
-  .then(response => response.json())
-  .then(data => {
-    if (data.success) {
-      console.log('Shopify feed index triggered successfully');
-    }
-  })
-  .catch(error => console.error('Shopify index error:', error));
-}
-</script>`,
-        php: `<?php
-// PHP Bulk Index API implementation
-// For cart platforms - use PUT to trigger feed download
-function triggerBulkIndex($feedId, $secretKey) {
-    $url = 'https://${siteId}:' . $secretKey . '@index-api.searchspring.net/api/index/feed?feedId=' . $feedId;
-
-    $ch = curl_init($url);
-    curl_setopt($ch, CURLOPT_CUSTOMREQUEST, 'PUT');
-    curl_setopt($ch, CURLOPT_RETURNTRANSFER, true);
-    curl_setopt($ch, CURLOPT_SSL_VERIFYPEER, true);
-
-    $response = curl_exec($ch);
-    $httpCode = curl_getinfo($ch, CURLINFO_HTTP_CODE);
-    curl_close($ch);
-
-    if ($httpCode === 200) {
-        return json_decode($response, true);
-    } else {
-        throw new Exception('Bulk index failed with HTTP code: ' . $httpCode);
-    }
-}
-
-// For custom feeds - use POST with multipart/form-data
-function uploadCustomFeed($feedId, $secretKey, $feedFilePath) {
-    $url = 'https://${siteId}:' . $secretKey . '@index-api.searchspring.net/api/index/feed?feedId=' . $feedId;
-
-    $ch = curl_init($url);
-    curl_setopt($ch, CURLOPT_POST, true);
-    curl_setopt($ch, CURLOPT_POSTFIELDS, [
-        'feedFile' => new CURLFile($feedFilePath)
-    ]);
-    curl_setopt($ch, CURLOPT_RETURNTRANSFER, true);
-    curl_setopt($ch, CURLOPT_SSL_VERIFYPEER, true);
-
-    $response = curl_exec($ch);
-    curl_close($ch);
-
-    return json_decode($response, true);
-}
-?>`
-      }
-    };
-
-    const apiCode = codeTemplates[api]?.[platform] || codeTemplates[api]?.javascript;
-
-    if (!apiCode) {
+  private async generateApiCode(api: ApiGuideParams["api"], platform: CodeGeneratorParams["platform"], useCase?: string): Promise<CallToolResult> {
+    const siteId = this.getSiteIdOrExample();
+    const templates = this.knowledgeBase.templates[api];
+    const endpointName = API_ENDPOINTS[api].name;
+    const resolved = resolveTemplate(templates, platform, API_TEMPLATE_FALLBACKS[platform], `the ${endpointName}`);
+    const documentationUrl = `https://docs.searchspring.com/api/${api}/`;
+
+    if (!resolved) {
+      const available = Object.keys(templates ?? {});
+      const structured: CodeGeneratorOutput = { api, platform, language: "", files: [], documentationUrl };
       return {
+        structuredContent: structured,
         content: [{
           type: "text",
-          text: `Code generation for ${api} API on ${platform} platform is not yet available. Use the searchspring_api_guide tool to get implementation guidance.`
+          text: `Code generation for the ${endpointName} on ${platformContext(platform).label} is not available${available.length > 0 ? ` - templates exist for: ${available.join(", ")}` : ""}. Use the searchspring_api_guide tool to get implementation guidance.`
         }]
       };
     }
 
+    const rendered = renderTemplate(
+      resolved.template,
+      { siteId, endpoints: resolveEndpoints(siteId), platform: platformContext(resolved.platform) },
+      this.knowledgeBase.partials
+    );
+    const apiCode = resolved.fallback ? `${commentLine(resolved.platform, `${resolved.fallback}.`)}\n${rendered}` : rendered;
+
+    const { language, extension } = this.fileTypeFor(resolved.platform);
+    const structured: CodeGeneratorOutput = {
+      api,
+      platform,
+      templatePlatform: resolved.platform,
+      ...(resolved.fallback ? { fallback: resolved.fallback } : {}),
+      language,
+      files: [{ path: `searchspring-${api}.${extension}`, language, content: apiCode }],
+      documentationUrl,
+    };
+
     return {
+      structuredContent: structured,
       content: [{
         type: "text",
-        text: `# ${api.toUpperCase()} API Code for ${platform.toUpperCase()}
+        text: `# ${api.toUpperCase()} API Code for ${resolved.platform.toUpperCase()}
 
-${useCase ? `**Use Case**: ${useCase}\n\n` : ''}**Generated Implementation:**
+${resolved.fallback ? `⚠️ **Fallback**: ${resolved.fallback}. Adapt it to ${platformContext(platform).label} before using it.\n\n` : ""}${useCase ? `**Use Case**: ${useCase}\n\n` : ''}**Generated Implementation:**
 
-\`\`\`${platform === 'javascript' ? 'javascript' : 'html'}
+\`\`\`${language}
 ${apiCode}
 \`\`\`
 
@@ -1149,201 +427,108 @@ ${apiCode}
 3. Test the implementation thoroughly
 4. Use the code validator tool to check your implementation
 
-**Documentation**: https://docs.searchspring.com/api/${api}/`
+**Documentation**: ${documentationUrl}`
       }]
     };
   }
 
-  private async generateTrackingCode(platform: string, eventType: string) {
+  private async generateTrackingCode(params: {
+    platform: CodeGeneratorParams["platform"];
+    eventType: string;
+    sku?: string | undefined;
+    price?: number | undefined;
+    quantity?: number | undefined;
+  }): Promise<CallToolResult> {
+    const { platform, eventType } = params;
+    if (eventType === "sale" && canonicalPlatform(platform) === "shopify") {
+      return this.generateShopifyWebPixel(platform);
+    }
     const siteId = this.getSiteIdOrExample();
-    const sku = "PRODUCT_SKU";
-    const price = 99.99;
-    const quantity = 1;
-
-    const implementations: Record<string, Record<string, string>> = {
-      shopify: {
-        product: `<!-- Add to product page template -->
-<script>
-if (typeof ss != 'undefined') {
-  ss.track.product.view({
-    sku: '{{ product.variants.first.sku }}',
-    name: '{{ product.title }}',
-    price: {{ product.price | money_without_currency }}
-  });
-}
-</script>`,
-        cart: `<!-- Add to cart page or add-to-cart action -->
-<script>
-if (typeof ss != 'undefined') {
-  {% for item in cart.items %}
-  ss.track.cart.add({
-    sku: '{{ item.sku }}',
-    name: '{{ item.product.title }}',
-    price: {{ item.price | money_without_currency }},
-    quantity: {{ item.quantity }}
-  });
-  {% endfor %}
-}
-</script>`,
-        sale: `<!-- IMPORTANT: Shopify Checkout Extensibility Notice -->
-<!-- For modern Shopify stores with checkout extensibility, sales tracking -->
-<!-- must be implemented via Shopify Web Pixel apps, not thank you page code -->
-<!-- See: https://help.searchspring.net/hc/en-us/articles/24882106349467 -->
-
-<!-- Traditional method (for older Shopify stores): -->
-<!-- Add to order-status-url (thank you page) template -->
-<script>
-if (typeof ss != 'undefined') {
-  {% for line_item in order.line_items %}
-  ss.track.purchase.buy({
-    sku: '{{ line_item.sku }}',
-    name: '{{ line_item.title }}',
-    price: {{ line_item.price | money_without_currency }},
-    quantity: {{ line_item.quantity }}
-  });
-  {% endfor %}
-}
-</script>
-
-<!-- Modern Shopify (Checkout Extensibility) Method: -->
-<!-- This requires a Shopify Web Pixel app implementation -->
-<!-- Contact Searchspring support for Web Pixel app setup -->
-<!-- Web Pixel apps handle checkout-complete events automatically -->`
-      },
-      bigcommerce: {
-        product: `<!-- Add to product page template (BigCommerce Stencil) -->
-<script>
-if (typeof ss != 'undefined') {
-  ss.track.product.view({
-    sku: '{{product.sku}}',
-    name: '{{product.title}}',
-    price: {{product.price.without_tax.value}}
-  });
-}
-</script>`,
-        cart: `<!-- Add to cart page template -->
-<script>
-if (typeof ss != 'undefined') {
-  {{#each cart.items}}
-  ss.track.cart.add({
-    sku: '{{sku}}',
-    name: '{{name}}',
-    price: {{price.value}},
-    quantity: {{quantity}}
-  });
-  {{/each}}
-}
-</script>`,
-        sale: `<!-- Add to order confirmation page -->
-<script>
-if (typeof ss != 'undefined') {
-  {{#each order.products}}
-  ss.track.purchase.buy({
-    sku: '{{sku}}',
-    name: '{{name}}',
-    price: {{price_ex_tax}},
-    quantity: {{quantity}}
-  });
-  {{/each}}
-}
-</script>`
-      },
-      magento2: {
-        product: `<!-- Add to product page template (Magento 2) -->
-<script>
-if (typeof ss != 'undefined') {
-  ss.track.product.view({
-    sku: '<?= $block->escapeHtml($_product->getSku()) ?>',
-    name: '<?= $block->escapeHtml($_product->getName()) ?>',
-    price: <?= $_product->getFinalPrice() ?>
-  });
-}
-</script>`,
-        cart: `<!-- Add to cart page template -->
-<script>
-if (typeof ss != 'undefined') {
-  <?php foreach ($block->getItems() as $item): ?>
-  ss.track.cart.add({
-    sku: '<?= $block->escapeHtml($item->getSku()) ?>',
-    name: '<?= $block->escapeHtml($item->getName()) ?>',
-    price: <?= $item->getPrice() ?>,
-    quantity: <?= $item->getQty() ?>
-  });
-  <?php endforeach; ?>
-}
-</script>`,
-        sale: `<!-- Add to success page template -->
-<script>
-if (typeof ss != 'undefined') {
-  <?php foreach ($block->getOrderItems() as $item): ?>
-  ss.track.purchase.buy({
-    sku: '<?= $block->escapeHtml($item->getSku()) ?>',
-    name: '<?= $block->escapeHtml($item->getName()) ?>',
-    price: <?= $item->getPrice() ?>,
-    quantity: <?= $item->getQtyOrdered() ?>
-  });
-  <?php endforeach; ?>
-}
-</script>`
-      },
-      custom: {
-        product: `<!-- Generic implementation for product view -->
-<script>
-// Ensure IntelliSuggest is loaded
-if (typeof ss != 'undefined') {
-  ss.track.product.view({
-    sku: '${sku}',
-    name: 'Product Name',
-    price: ${price}
-  });
-}
-</script>`,
-        cart: `<!-- Generic implementation for cart/add to cart -->
-<script>
-if (typeof ss != 'undefined') {
-  ss.track.cart.add({
-    sku: '${sku}',
-    name: 'Product Name',
-    price: ${price},
-    quantity: ${quantity}
-  });
-}
-</script>`,
-        sale: `<!-- Generic implementation for purchase -->
-<script>
-if (typeof ss != 'undefined') {
-  ss.track.purchase.buy({
-    sku: '${sku}',
-    name: 'Product Name',
-    price: ${price},
-    quantity: ${quantity}
-  });
-}
-</script>`
-      }
-    };
+    const supplied = params.sku !== undefined || params.price !== undefined || params.quantity !== undefined;
+    const sku = params.sku ?? DEFAULT_TRACKING_VALUES.sku;
+    const price = params.price ?? DEFAULT_TRACKING_VALUES.price;
+    const quantity = params.quantity ?? DEFAULT_TRACKING_VALUES.quantity;
 
-    const platformCode = implementations[platform] || implementations.custom;
-    const code = platformCode?.[eventType] || platformCode?.product || implementations.custom?.product || 'Code generation not available';
+    const templates = Object.fromEntries(Object.entries(this.knowledgeBase.tracking)
+      .filter(([, byEvent]) => byEvent[eventType] !== undefined)
+      .map(([templatePlatform, byEvent]) => [templatePlatform, byEvent[eventType] ?? ""]));
+    const resolved = resolveTemplate(templates, platform, TRACKING_TEMPLATE_FALLBACKS[platform] ?? DEFAULT_TRACKING_FALLBACKS, `${eventType} tracking`);
 
     const documentationUrls: Record<string, string> = {
       shopify: "https://help.searchspring.net/hc/en-us/articles/206972376-IntelliSuggest-Tracking-in-Shopify",
       custom: "https://help.searchspring.net/hc/en-us/articles/201185129-Adding-IntelliSuggest-Tracking"
     };
+    const beaconEvent = BEACON_TRACKING_EVENTS.includes(eventType);
+    const documentationUrl = beaconEvent
+      ? "https://docs.searchspring.com/api/beacon/"
+      : documentationUrls[platform] || documentationUrls.custom || "";
+
+    if (!resolved) {
+      const structured: CodeGeneratorOutput = { api: "tracking", platform, language: "", files: [], documentationUrl };
+      return {
+        structuredContent: structured,
+        content: [{
+          type: "text",
+          text: `IntelliSuggest tracking code for the ${eventType} event is not available - templates exist for: ${Object.values(this.knowledgeBase.tracking).flatMap(Object.keys).filter((event, index, events) => events.indexOf(event) === index).join(", ")}.`,
+        }],
+      };
+    }
+
+    const rendered = renderTemplate(
+      resolved.template,
+      { siteId, endpoints: resolveEndpoints(siteId), sku: escapeJsString(sku), price, quantity, platform: platformContext(resolved.platform) },
+      this.knowledgeBase.partials
+    );
+    const code = resolved.fallback ? `${commentLine(resolved.platform, `${resolved.fallback}.`)}\n${rendered}` : rendered;
+
+    // Templates that read the product from the page only use supplied values in the console check
+    const trackingCall = TRACKING_CALLS[eventType];
+    const valuesNote = !supplied || !trackingCall ? "" : `
+Product Values: sku ${sku}, price ${price}${eventType === "product" ? "" : `, quantity ${quantity}`}${rendered.includes(`'${escapeJsString(sku)}'`) ? "" : `
+This template reads the product values from the ${platformContext(resolved.platform).label} page - the values above are only used in the check below.`}
+${trackingCall ? `
+Verify in the browser console on a page with the IntelliSuggest script loaded:
+${trackingCall}({ sku: '${escapeJsString(sku)}', price: ${price}${eventType === "product" ? "" : `, quantity: ${quantity}`} });
+` : ""}`;
+
+    const { language, extension } = this.fileTypeFor(resolved.platform);
+    const structured: CodeGeneratorOutput = {
+      api: "tracking",
+      platform,
+      templatePlatform: resolved.platform,
+      ...(resolved.fallback ? { fallback: resolved.fallback } : {}),
+      language,
+      files: [{ path: `searchspring-tracking-${eventType}.${extension}`, language, content: code }],
+      documentationUrl,
+    };
 
     return {
+      structuredContent: structured,
       content: [
         {
           type: "text",
-          text: `IntelliSuggest Tracking Implementation for ${platform.toUpperCase()} - ${eventType} event:
+          text: beaconEvent
+            ? `Search Result Tracking Implementation for ${resolved.platform.toUpperCase()} - ${eventType} event:
+${resolved.fallback ? `\n⚠️ Fallback: ${resolved.fallback}. Adapt it to ${platformContext(platform).label} before using it.\n` : ""}
+Implementation Code:
+${code}
+
+Documentation: ${documentationUrl}
 
+Requirements:
+- Each result element needs data-ss-sku, data-ss-position and the intellisuggestData/intellisuggestSignature values from its Search API result as data-ss-intellisuggest-data/data-ss-intellisuggest-signature
+- The results container needs data-ss-page-load-id set to the pageLoadId sent with the search request - events are attributed to that search
+- ssUserId and ssSessionIdNamespace cookies must be set
+- Validate the payloads the page sends with the searchspring_beacon_validator tool`
+            : `IntelliSuggest Tracking Implementation for ${resolved.platform.toUpperCase()} - ${eventType} event:
+${resolved.fallback ? `\n⚠️ Fallback: ${resolved.fallback}. Adapt it to ${platformContext(platform).label} before using it.\n` : ""}
 IMPORTANT: Include IntelliSuggest script first:
 <script src="//cdn.searchspring.net/intellisuggest/is.min.js"></script>
 
 Implementation Code:
 ${code}
-
-Documentation: ${documentationUrls[platform] || documentationUrls.custom}
+${valuesNote}
+Documentation: ${documentationUrl}
 
 Requirements:
 - _isuid cookie must be set
@@ -1354,226 +539,500 @@ Requirements:
     };
   }
 
-  async validateCode(params: CodeValidationParams) {
-    const { code, codeType, platform, issue } = params;
+  private generateShopifyWebPixel(platform: CodeGeneratorParams["platform"]): CallToolResult {
     const siteId = this.getSiteIdOrExample();
+    const extension = this.knowledgeBase.extensions[SHOPIFY_WEB_PIXEL.extension];
+    const documentationUrl = "https://shopify.dev/docs/apps/build/marketing-analytics/build-web-pixels";
+    if (!extension) {
+      const structured: CodeGeneratorOutput = { api: "tracking", platform, language: "", files: [], documentationUrl };
+      return {
+        structuredContent: structured,
+        content: [{ type: "text", text: `The Shopify Web Pixel extension is missing from the knowledge base (extensions/${SHOPIFY_WEB_PIXEL.extension}).` }],
+      };
+    }
 
-    const validationResults: string[] = [];
-    const warnings: string[] = [];
-    const suggestions: string[] = [];
-
-    // Common validation checks
-    if (codeType === "tracking" || codeType === "beacon") {
-      // Check for IntelliSuggest script inclusion
-      if (!code.includes("cdn.searchspring.net/intellisuggest") && !code.includes("is.min.js")) {
-        validationResults.push("❌ Missing IntelliSuggest script: <script src='//cdn.searchspring.net/intellisuggest/is.min.js'></script>");
-      } else {
-        validationResults.push("✅ IntelliSuggest script inclusion detected");
-      }
+    const context = { siteId, endpoints: resolveEndpoints(siteId) };
+    const files = Object.entries(extension).sort(([a], [b]) => a.localeCompare(b)).map(([path, template]) => ({
+      path: `${SHOPIFY_WEB_PIXEL.path}/${path}`,
+      language: EXTENSION_FILE_LANGUAGES[extname(path).slice(1)] ?? "text",
+      content: renderTemplate(template, context, this.knowledgeBase.partials),
+    }));
+    const structured: CodeGeneratorOutput = { api: "tracking", platform, templatePlatform: "shopify", language: "javascript", files, documentationUrl };
 
-      // Check for ss.track usage
-      if (!code.includes("ss.track")) {
-        validationResults.push("❌ No tracking calls found (ss.track.product.view, ss.track.cart.add, ss.track.purchase.buy)");
-      } else {
-        validationResults.push("✅ Tracking calls detected");
-      }
+    return {
+      structuredContent: structured,
+      content: [{
+        type: "text",
+        text: `# Shopify Web Pixel Extension - sale event
 
-      // Check for typeof ss check
-      if (!code.includes("typeof ss")) {
-        warnings.push("⚠️  Consider adding safety check: if (typeof ss != 'undefined')");
-      }
+Shopify checkout extensibility does not run theme code on the thank-you page, so purchases are tracked by a Web Pixel extension. The pixel subscribes to checkout_completed, product_viewed and product_added_to_cart and sends order.transaction, product.view and cart.view events to the Beacon API.
 
-      // Check for required tracking fields
-      if (code.includes("ss.track.product") && !code.includes("sku")) {
-        validationResults.push("❌ Product tracking missing required 'sku' field");
-      }
+${files.map(file => `**${file.path}**\n\n\`\`\`${file.language}\n${file.content.replace(/\n$/, "")}\n\`\`\``).join("\n\n")}
 
-      if (code.includes("ss.track.cart") && (!code.includes("sku") || !code.includes("quantity"))) {
-        validationResults.push("❌ Cart tracking missing required 'sku' and/or 'quantity' fields");
-      }
+**Next Steps:**
+1. Copy ${SHOPIFY_WEB_PIXEL.path}/ into your Shopify app (or create one with \`shopify app init\`) and run \`shopify app deploy\`
+2. Install the app on the store and activate the pixel with the Admin API:
+\`\`\`graphql
+mutation {
+  webPixelCreate(webPixel: { settings: "{\\"siteId\\":\\"${siteId}\\"}" }) {
+    webPixel { id settings }
+    userErrors { field message }
+  }
+}
+\`\`\`
+3. Remove product, cart and order-status tracking snippets from the theme so events are not counted twice
+4. Complete a test order and check the Beacon requests in Settings > Customer events > Searchspring (or validate them with the searchspring_beacon_validator tool)
+
+**Documentation**: ${documentationUrl}`,
+      }],
+    };
+  }
+
+  async validateCode(params: CodeValidationParams): Promise<CallToolResult> {
+    const { codeType, platform, issue } = params;
+    const siteId = this.getSiteIdOrExample();
+
+    const { findings, suppressed } = validateImplementation(params, this.ruleConfig);
+
+    // Issue-specific troubleshooting
+    let troubleshooting = "";
+    if (issue) {
+      troubleshooting = `
+
+Troubleshooting for: "${issue}"
+`;
 
-      if (code.includes("ss.track.purchase") && (!code.includes("sku") || !code.includes("quantity"))) {
-        validationResults.push("❌ Purchase tracking missing required 'sku' and/or 'quantity' fields");
+      const issueText = issue.toLowerCase();
+      for (const topic of this.knowledgeBase.troubleshooting) {
+        if (topic.triggers.some(group => group.every(phrase => issueText.includes(phrase)))) {
+          troubleshooting += `${topic.title}:\n${topic.items.map(item => `- ${renderTemplate(item, { siteId })}`).join("\n")}\n`;
+        }
       }
     }
 
-    if (codeType === "search" || codeType === "autocomplete" || codeType === "suggest" || codeType === "trending" || codeType === "finder" || codeType === "recommendations") {
-      // Check for API endpoint
-      if (!code.includes(".a.searchspring.io")) {
-        validationResults.push("❌ Missing Searchspring API endpoint (should include .a.searchspring.io)");
-      } else {
-        validationResults.push("✅ Searchspring API endpoint detected");
-      }
+    const render = (severities: ValidationFinding["severity"][]) =>
+      findings.filter(finding => severities.includes(finding.severity)).map(finding =>
+        `${SEVERITY_ICONS[finding.severity]}${finding.line !== undefined ? `Line ${finding.line}:${finding.column} - ` : ""}${finding.message}`);
+    const validationResults = render(["error", "pass"]);
+    const warnings = render(["warning"]);
+    const suggestions = render(["suggestion"]);
 
-      // Check for required parameters
-      if (!code.includes("siteId")) {
-        validationResults.push("❌ Missing required 'siteId' parameter");
-      } else {
-        validationResults.push("✅ siteId parameter detected");
-      }
+    const summary = `Code Validation Results for ${codeType.toUpperCase()} implementation${platform ? ` on ${platform.toUpperCase()}` : ''}
 
-      if (!code.includes("userId") && !code.includes("sessionId")) {
-        warnings.push("⚠️  Missing tracking parameters (userId, sessionId) - these are required for analytics");
-      }
+${validationResults.join('\n')}
 
-      // API-specific validations
-      if (codeType === "search" && !code.includes("q=")) {
-        validationResults.push("❌ Search API missing query parameter 'q'");
-      }
+${warnings.length > 0 ? `Warnings:\n${warnings.join('\n')}\n` : ''}${suggestions.length > 0 ? `Suggestions:\n${suggestions.join('\n')}\n` : ''}${suppressed.length > 0 ? `Suppressed by searchspring-disable comments: ${suppressed.map(finding => finding.ruleId).join(", ")}\n` : ''}${troubleshooting}
+For additional support:
+- Documentation: https://docs.searchspring.com/
+- Support: https://help.searchspring.net/
+- Implementation guides: https://help.searchspring.net/hc/en-us/sections/201185149`;
 
-      if (codeType === "autocomplete" && !code.includes("debounce")) {
-        warnings.push("⚠️  Consider implementing debouncing for autocomplete to reduce API calls");
-      }
+    const structured: CodeValidationOutput = {
+      codeType,
+      platform,
+      valid: !findings.some(finding => finding.severity === "error"),
+      findings,
+      suppressed,
+      troubleshooting: troubleshooting.trim() || undefined,
+    };
 
-      if (codeType === "recommendations" && !code.includes("pageLoadId")) {
-        warnings.push("⚠️  Recommendations work better with pageLoadId parameter");
-      }
+    return {
+      structuredContent: structured,
+      content: [
+        {
+          type: "text",
+          text: summary,
+        },
+      ],
+    };
+  }
 
-      // Check for error handling
-      if (!code.includes(".catch") && !code.includes("try")) {
-        warnings.push("⚠️  No error handling detected - consider adding .catch() or try/catch");
-      }
-    }
+  async listRules(params: ListRulesParams): Promise<CallToolResult> {
+    const { codeType, platform } = params;
+    const { rulesFile } = this.config;
+    const structured: ListRulesOutput = { rules: listRules(params, this.ruleConfig), rulesFile };
 
-    if (codeType === "beacon") {
-      // Check for beacon endpoint
-      if (!code.includes("beacon.searchspring.io")) {
-        validationResults.push("❌ Missing Beacon API endpoint (should be beacon.searchspring.io)");
-      } else {
-        validationResults.push("✅ Beacon API endpoint detected");
-      }
+    const rows = structured.rules.map(rule =>
+      `| \`${rule.id}\` | ${rule.enabled ? rule.severity : "off"}${rule.severity !== rule.defaultSeverity ? ` (default ${rule.defaultSeverity})` : ""} | ${rule.platforms ? rule.platforms.join(", ") : "all"} | ${rule.description} ([docs](${rule.docs})) |`);
 
-      // Check for POST method
-      if (!code.includes("POST")) {
-        validationResults.push("❌ Beacon API requires POST method");
-      }
+    return {
+      structuredContent: structured,
+      content: [
+        {
+          type: "text",
+          text: `# Code Validator Rules${codeType ? ` for ${codeType}` : ""}${platform ? ` on ${platform}` : ""}
+${rulesFile ? `
+**Rules file**: ${rulesFile}
+` : ""}
+| Rule | Severity | Platforms | Checks |
+|------|----------|-----------|--------|
+${rows.join("\n")}
+
+Disable or re-grade rules by id in the file set by SEARCHSPRING_RULES_FILE (\`rules: { autocomplete/debounce: "off" }\`), or suppress a single finding with a \`searchspring-disable-next-line <rule-id>\` comment on the line above it.`,
+        },
+      ],
+    };
+  }
 
-      // Check for required beacon fields
-      if (!code.includes("type")) {
-        validationResults.push("❌ Beacon tracking missing required 'type' field");
-      }
-    }
+  async searchDocs(params: DocsSearchParams): Promise<CallToolResult> {
+    const { query, api, limit } = params;
+
+    // Built on first use; the knowledge base does not change while the server runs
+    this.docsIndex ??= new DocsIndex(buildDocEntries(this.knowledgeBase, this.getSiteIdOrExample()));
+    const matches = this.docsIndex.search(query, api ? { api, limit } : { limit });
+
+    const structured: DocsSearchOutput = {
+      query,
+      results: matches.map(({ entry, score, snippet }) => ({
+        kind: entry.kind,
+        ...(entry.api ? { api: entry.api } : {}),
+        ...(entry.parameter ? { parameter: entry.parameter } : {}),
+        title: entry.title,
+        snippet,
+        score,
+        ...(entry.followUp ? { followUp: entry.followUp } : {}),
+      })),
+    };
 
-    if (codeType === "bulk-index") {
-      // Check for bulk index endpoint
-      if (!code.includes("index-api.searchspring.net")) {
-        validationResults.push("❌ Missing Bulk Index API endpoint (should be index-api.searchspring.net)");
-      } else {
-        validationResults.push("✅ Bulk Index API endpoint detected");
-      }
+    const text = structured.results.length === 0
+      ? `No documentation matched "${query}". Try different keywords, or use searchspring_api_guide to browse an API.`
+      : `# Documentation results for "${query}"
 
-      // Check for secret key
-      if (!code.includes("secretKey")) {
-        validationResults.push("❌ Bulk Index API requires 'secretKey' parameter");
-      }
+${structured.results.map((result, index) => `${index + 1}. **${result.title}** (${result.kind})
+   ${result.snippet}${result.followUp ? `
+   → \`${result.followUp.tool}\` ${JSON.stringify(result.followUp.arguments)}` : ""}`).join("\n\n")}`;
 
-      // Check for products array
-      if (!code.includes("products")) {
-        validationResults.push("❌ Bulk Index API missing 'products' array");
-      }
-    }
+    return {
+      structuredContent: structured,
+      content: [
+        {
+          type: "text",
+          text,
+        },
+      ],
+    };
+  }
 
-    // Platform-specific checks
-    if (platform === "shopify") {
-      if (codeType === "tracking" && !code.includes("{{")) {
-        warnings.push("⚠️  No Liquid template variables detected - make sure you're using Shopify's template syntax");
-      }
+  async buildRequest(params: RequestBuilderParams): Promise<CallToolResult> {
+    const siteId = params.siteId || this.getSiteIdOrExample();
+    const structured = buildRequest(params, siteId);
 
-      if (code.includes("product.variants.first.sku") && !code.includes("product.selected_or_first_available_variant.sku")) {
-        suggestions.push("💡 Consider using product.selected_or_first_available_variant.sku for better variant handling");
-      }
+    const findings = structured.findings.length > 0
+      ? structured.findings.map(finding => SEVERITY_ICONS[finding.severity] + finding.message).join("\n")
+      : "✅ All required parameters present";
 
-      // Check for modern Shopify checkout extensibility
-      if (codeType === "tracking" && code.includes("ss.track.purchase.buy") && code.includes("order.line_items")) {
-        warnings.push("⚠️  IMPORTANT: For Shopify stores with checkout extensibility, sales tracking must use Web Pixel apps instead of thank you page code");
-        suggestions.push("💡 Modern Shopify: Contact Searchspring support for Web Pixel app setup (https://help.searchspring.net/hc/en-us/articles/24882106349467)");
-      }
-    }
+    const text = `# ${params.api} API Request
 
-    if (platform === "bigcommerce") {
-      if (codeType === "tracking" && !code.includes("{{#") && !code.includes("{{")) {
-        warnings.push("⚠️  No Handlebars template syntax detected - make sure you're using BigCommerce's Stencil template syntax");
-      }
+**URL**: ${structured.url}
 
-      if (code.includes("product.sku") && !code.includes("{{product.sku}}")) {
-        suggestions.push("💡 Use {{product.sku}} for BigCommerce Stencil template syntax");
-      }
-    }
+## Parameters
+${structured.params.map(({ name, value }) => `- \`${name}\` = \`${value}\``).join("\n")}
 
-    if (platform === "magento2") {
-      if (codeType === "tracking" && !code.includes("<?=")) {
-        warnings.push("⚠️  No PHP template syntax detected - make sure you're using Magento's .phtml syntax");
-      }
+## Validation
+${findings}
 
-      if (code.includes("$_product") && !code.includes("escapeHtml")) {
-        suggestions.push("💡 Use $block->escapeHtml() for proper data escaping in Magento 2");
-      }
-    }
+## fetch
+\`\`\`javascript
+${structured.fetch}
+\`\`\`
 
-    // Issue-specific troubleshooting
-    let troubleshooting = "";
-    if (issue) {
-      troubleshooting = `
+## curl
+\`\`\`bash
+${structured.curl}
+\`\`\``;
 
-Troubleshooting for: "${issue}"
-`;
+    return {
+      structuredContent: structured,
+      content: [
+        {
+          type: "text",
+          text: params.siteId ? text : this.addSiteIdNote(text),
+        },
+      ],
+    };
+  }
 
-      if (issue.toLowerCase().includes("not working") || issue.toLowerCase().includes("not tracking")) {
-        troubleshooting += `Common causes:
-- IntelliSuggest script not loaded or blocked by ad blockers
-- Script placed in wrong location (should be in <head> or before tracking calls)
-- Missing _isuid cookie (check browser dev tools > Application > Cookies)
-- SKU values don't match Searchspring indexed product SKU field
-- Browser console errors preventing script execution
-- SHOPIFY SPECIFIC: Modern Shopify stores with checkout extensibility require Web Pixel apps for sales tracking
-`;
-      }
+  async explainRequest(params: ExplainRequestParams): Promise<CallToolResult> {
+    const structured = explainRequest(params.url, this.knowledgeBase);
 
-      if (issue.toLowerCase().includes("undefined") || issue.toLowerCase().includes("is not defined")) {
-        troubleshooting += `Script loading issue:
-- Ensure IntelliSuggest script loads before your tracking code
-- Remove async/defer attributes from the IntelliSuggest script tag
-- Check browser console for script loading errors
-`;
-      }
+    const parameters = structured.parameters.map(param => {
+      const explanation = param.description ?? (param.registryParam ? "Documented parameter" : "Not a documented parameter for this API");
+      return `- \`${param.name}\` = \`${param.value}\` - ${explanation}`;
+    });
 
-      if (issue.toLowerCase().includes("shopify") && issue.toLowerCase().includes("sales")) {
-        troubleshooting += `Shopify sales tracking issues:
-- Modern Shopify (checkout extensibility): Use Web Pixel apps instead of thank you page
-- Traditional Shopify: Add code to order-status-url template
-- Contact Searchspring support for Web Pixel app setup
-- Verify _isuid cookie is being set correctly
-- Documentation: https://help.searchspring.net/hc/en-us/articles/24882106349467
-`;
-      }
+    return {
+      structuredContent: structured,
+      content: [
+        {
+          type: "text",
+          text: `# Request Explanation
 
-      if (issue.toLowerCase().includes("search") || issue.toLowerCase().includes("results")) {
-        troubleshooting += `API integration issues:
-- Verify siteId is correct: ${siteId}
-- Check CORS settings if calling from browser
-- Ensure all required parameters are included
-- Check network tab for API response errors
-`;
+**API**: ${structured.endpoint ? `${structured.endpoint} (${structured.api})` : "Unknown"}
+**URL**: ${structured.url}
+
+## Parameters
+${parameters.length > 0 ? parameters.join("\n") : "No query parameters"}
+
+## Findings
+${structured.findings.length > 0 ? structured.findings.map(finding => SEVERITY_ICONS[finding.severity] + finding.message).join("\n") : "✅ No problems found"}
+
+Use searchspring_parameter_guide for the full guide to any parameter above.`,
+        },
+      ],
+    };
+  }
+
+  async validateBeacon(params: BeaconValidationParams): Promise<CallToolResult> {
+    const structured = validateBeaconEvents(params.events, this.config.siteId);
+
+    const events = structured.events.map(event => {
+      const label = `Event ${event.index}${event.type ? ` (${event.type})` : ""}`;
+      if (event.valid) {
+        return `✅ ${label}`;
       }
+      return `❌ ${label}\n${event.errors.map(error => `   - \`${error.path || "(event)"}\` ${error.message}`).join("\n")}`;
+    });
+
+    return {
+      structuredContent: structured,
+      content: [
+        {
+          type: "text",
+          text: `# Beacon Payload Validation
+
+**Status**: ${structured.valid ? "✅ Valid" : "❌ Invalid"} (${structured.eventCount} event${structured.eventCount === 1 ? "" : "s"})
+
+## Events
+${events.length > 0 ? events.join("\n") : "No events"}
+${structured.findings.length > 0 ? `
+## Findings
+${structured.findings.map(finding => SEVERITY_ICONS[finding.severity] + finding.message).join("\n")}
+` : ""}
+Use searchspring_parameter_guide with api "beacon" for the meaning of each field.`,
+        },
+      ],
+    };
+  }
+
+  async migrateTracking(params: MigrateTrackingParams): Promise<CallToolResult> {
+    const siteId = this.getSiteIdOrExample();
+    const beaconClient = renderTemplate("[[> beacon-client]]", { siteId, endpoints: resolveEndpoints(siteId) }, this.knowledgeBase.partials);
+    const structured = migrateTracking(params, beaconClient);
+    const migrated = structured.calls.filter(call => call.beaconType).length;
+
+    const calls = structured.calls.map(call => call.beaconType
+      ? `✅ Line ${call.line}: \`${call.call}\` → \`${call.beaconType}\``
+      : `⚠️  Line ${call.line}: \`${call.call}\` left for manual migration`);
+
+    return {
+      structuredContent: structured,
+      content: [
+        {
+          type: "text",
+          text: `# IntelliSuggest to Beacon Migration
+
+**Migrated**: ${migrated} of ${structured.calls.length} call${structured.calls.length === 1 ? "" : "s"}
+
+## Calls
+${calls.length > 0 ? calls.join("\n") : "No IntelliSuggest calls found"}
+${structured.findings.length > 0 ? `
+## Needs Attention
+${structured.findings.map(finding => SEVERITY_ICONS[finding.severity] + finding.message).join("\n")}
+` : ""}
+## Migrated Code
+\`\`\`html
+${structured.code}
+\`\`\`
+
+## Side-by-Side Diff
+\`\`\`text
+${structured.diff}
+\`\`\`
+
+Check the events the page sends with the searchspring_beacon_validator tool.`,
+        },
+      ],
+    };
+  }
+
+  async validateFeed(params: FeedValidationParams): Promise<CallToolResult> {
+    const structured = validateFeedFile(this.resolveFile(params.path), params.format);
+    const { stats, coreFields } = structured;
+
+    const columns = (Object.entries(coreFields) as [string, string | null][])
+      .map(([field, column]) => `- ${field}: ${column ? `\`${column}\`` : "❌ not found"}`);
+
+    return {
+      structuredContent: structured,
+      content: [
+        {
+          type: "text",
+          text: `# Feed Validation
+
+**File**: ${structured.path}
+**Format**: ${structured.format.toUpperCase()}
+**Status**: ${structured.valid ? "✅ Ready to index" : "❌ Fix the errors below before triggering a bulk index"}
+
+## Stats
+- Size: ${(stats.bytes / 1024).toFixed(1)} KB
+- Records: ${stats.records} (${stats.uniqueSkus} unique SKUs)
+- Fields: ${stats.fields}${stats.emptyFields.length > 0 ? ` (always empty: ${stats.emptyFields.join(", ")})` : ""}
+
+## Core Fields
+${columns.join("\n")}
+
+## Findings
+${structured.findings.length > 0 ? structured.findings.map(finding => SEVERITY_ICONS[finding.severity] + finding.message).join("\n") : "✅ No problems found"}
+
+Bulk indexing is limited to one request per hour - see searchspring_api_guide with api "bulk-index" for uploading the feed.`,
+        },
+      ],
+    };
+  }
+
+  async generateFeed(params: FeedGeneratorParams): Promise<CallToolResult> {
+    const structured = generateFeed({
+      ...params,
+      input: this.resolveFile(params.input),
+      ...(params.output ? { output: this.resolveFile(params.output) } : {}),
+    });
+    const { stats, validation } = structured;
+
+    const mapping = Object.entries(structured.mapping).map(([field, spec]) => `- ${field}: \`${spec}\``);
+    const findings = [...structured.findings, ...validation.findings];
+
+    return {
+      structuredContent: structured,
+      content: [
+        {
+          type: "text",
+          text: `# Feed Generated
+
+**Export**: ${structured.input} (${describePlatform(structured.platform)}${structured.platformDetected ? ", detected" : ""})
+**Feed**: ${structured.output} (${structured.format.toUpperCase()}, ${structured.variants === "each" ? "one record per variant" : "one record per product"})
+**Status**: ${validation.valid ? "✅ Ready to upload" : "❌ The generated feed has errors - fix the export or the mapping"}
+
+## Stats
+- Export rows: ${stats.sourceRows}${stats.skippedRows > 0 ? ` (${stats.skippedRows} left out)` : ""}
+- Products: ${stats.products} with ${stats.variants} variants
+- Feed records: ${stats.records}
+- Fields: ${structured.fields.join(", ")}
+
+## Field Mapping
+${mapping.join("\n")}
+
+## Findings
+${findings.length > 0 ? findings.map(finding => SEVERITY_ICONS[finding.severity] + finding.message).join("\n") : "✅ No problems found"}
+
+Upload the feed with searchspring_bulk_index (method POST, feedFile "${structured.output}") - bulk indexing is limited to one request per hour.`,
+        },
+      ],
+    };
+  }
+
+  async bulkIndex(params: BulkIndexParams): Promise<CallToolResult> {
+    const { siteId, secretKey, timeout, indexBaseUrl, indexStateFile } = this.config;
+    if (!siteId || !secretKey) {
+      throw new Error("Bulk indexing needs SEARCHSPRING_SITE_ID and SEARCHSPRING_SECRET_KEY to be configured");
     }
 
-    const summary = `Code Validation Results for ${codeType.toUpperCase()} implementation${platform ? ` on ${platform.toUpperCase()}` : ''}
+    const feedFile = params.feedFile ? this.resolveFile(params.feedFile) : undefined;
+    const structured = await runBulkIndex(feedFile ? { ...params, feedFile } : params, { siteId, secretKey, timeout, baseUrl: indexBaseUrl, stateFile: indexStateFile });
+    const { job } = structured;
+
+    const heading = structured.action === "status"
+      ? `# Bulk Index Status: Feed ${structured.feedId}`
+      : structured.triggered
+        ? `# ✅ Bulk Index Triggered: Feed ${structured.feedId}`
+        : `# ⛔ Bulk Index Not Triggered: Feed ${structured.feedId}`;
+
+    const details = [
+      ...(structured.refused ? [`**Refused**: ${structured.refused}`] : []),
+      ...(structured.method && structured.action === "trigger" ? [`**Method**: ${structured.method}`] : []),
+      ...(job ? [`**Job status**: ${job.status}${job.message ? ` - ${job.message}` : ""}`] : []),
+      ...(job?.startedAt ? [`**Started**: ${job.startedAt}`] : []),
+      ...(job?.completedAt ? [`**Completed**: ${job.completedAt}`] : []),
+      ...(structured.lastTriggeredAt ? [`**Last triggered from here**: ${structured.lastTriggeredAt}`] : []),
+      ...(structured.nextAllowedAt ? [`**Next trigger allowed**: ${structured.nextAllowedAt}`] : []),
+    ];
 
-${validationResults.join('\n')}
+    return {
+      structuredContent: structured,
+      content: [
+        {
+          type: "text",
+          text: `${heading}
 
-${warnings.length > 0 ? `Warnings:\n${warnings.join('\n')}\n` : ''}${suggestions.length > 0 ? `Suggestions:\n${suggestions.join('\n')}\n` : ''}${troubleshooting}
-For additional support:
-- Documentation: https://docs.searchspring.com/
-- Support: https://help.searchspring.net/
-- Implementation guides: https://help.searchspring.net/hc/en-us/sections/201185149`;
+${details.join("\n")}
+
+## Requests
+${structured.requests.length > 0 ? structured.requests.map(request => `- ${request.method} ${request.url} → HTTP ${request.status}`).join("\n") : "No API calls were made"}`,
+        },
+      ],
+    };
+  }
+
+  async liveSearch(params: LiveSearchParams): Promise<CallToolResult> {
+    return this.liveQuery("search", params);
+  }
+
+  async liveAutocomplete(params: LiveAutocompleteParams): Promise<CallToolResult> {
+    return this.liveQuery("autocomplete", params);
+  }
+
+  private async liveQuery(api: LiveQueryOutput["api"], params: LiveSearchParams): Promise<CallToolResult> {
+    const { siteId, timeout, baseUrl } = this.config;
+    if (!siteId) {
+      throw new Error("Live queries need a configured site ID - set SEARCHSPRING_SITE_ID (and SEARCHSPRING_BASE_URL to query a local mock server)");
+    }
+
+    const structured = await runLiveQuery(api, params, { siteId, timeout, baseUrl });
+    const { query, pagination, merchandising } = structured;
+
+    const summary = [
+      `**Query**: ${query.original ? `"${query.original}"` : "(none)"}${query.corrected ? ` → corrected to "${query.corrected}"` : ""}`,
+      `**Results**: ${pagination.totalResults} (page ${pagination.currentPage} of ${pagination.totalPages}, ${pagination.perPage} per page)`,
+      ...(structured.appliedFilters.length > 0 ? [`**Filters**: ${structured.appliedFilters.join(", ")}`] : []),
+      `**Response**: HTTP ${structured.status} in ${structured.durationMs}ms`,
+    ];
+
+    const results = structured.results.map((result, index) =>
+      `${index + 1}. ${result.name ?? result.id}${result.brand ? ` - ${result.brand}` : ""}${result.price !== undefined ? ` ($${result.price})` : ""} \`${result.sku ?? result.id}\``
+    );
+
+    const facets = structured.facets.map(facet => {
+      const values = facet.range
+        ? `${facet.range[0]} - ${facet.range[1]}`
+        : facet.values.map(value => `${value.active ? "**" : ""}${value.label} (${value.count})${value.active ? "**" : ""}`).join(", ");
+      return `- **${facet.label}** (\`${facet.field}\`${facet.active ? ", active" : ""}): ${values || "no values"}`;
+    });
+
+    const merchandisingLines = [
+      ...(merchandising.redirect ? [`↪️ Redirects to ${merchandising.redirect}${params.redirectResponse === "full" ? "" : " - results are omitted; pass redirectResponse: \"full\" to see them"}`] : []),
+      ...merchandising.campaigns.map(campaign => `- Campaign **${campaign.title || campaign.id}** (\`${campaign.id}\`)`),
+      ...(merchandising.contentZones.length > 0 ? [`- Content in: ${merchandising.contentZones.join(", ")}`] : []),
+    ];
 
     return {
+      structuredContent: structured,
       content: [
         {
           type: "text",
-          text: summary,
+          text: `# Live ${api === "search" ? "Search" : "Autocomplete"} Results
+
+${summary.join("\n")}
+**URL**: ${structured.url}
+
+## Results
+${results.length > 0 ? results.join("\n") : "No results"}
+
+## Facets
+${facets.length > 0 ? facets.join("\n") : "No facets returned"}
+
+## Merchandising
+${merchandisingLines.length > 0 ? merchandisingLines.join("\n") : "No redirects, campaigns or merchandising content for this query"}`,
         },
       ],
     };
   }
-}
\ No newline at end of file
+}
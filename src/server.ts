@@ -0,0 +1,244 @@
+import { z } from "zod";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { SearchspringClient } from "./searchspring-client.js";
+import { listResources, readResource, resourceTemplates } from "./resources.js";
+import { getPrompt, prompts } from "./prompts.js";
+import {
+  ApiGuideOutputSchema,
+  ApiGuideParamsSchema,
+  BeaconValidationOutputSchema,
+  BeaconValidationParamsSchema,
+  BulkIndexOutputSchema,
+  BulkIndexParamsSchema,
+  CodeGeneratorOutputSchema,
+  CodeGeneratorParamsSchema,
+  CodeValidationOutputSchema,
+  CodeValidationParamsSchema,
+  DocsSearchOutputSchema,
+  DocsSearchParamsSchema,
+  ExplainRequestOutputSchema,
+  ExplainRequestParamsSchema,
+  FeedGeneratorOutputSchema,
+  FeedGeneratorParamsSchema,
+  FeedValidationOutputSchema,
+  FeedValidationParamsSchema,
+  LiveAutocompleteParamsSchema,
+  LiveQueryOutputSchema,
+  ListRulesOutputSchema,
+  ListRulesParamsSchema,
+  LiveSearchParamsSchema,
+  MigrateTrackingOutputSchema,
+  MigrateTrackingParamsSchema,
+  ParameterGuideOutputSchema,
+  ParameterGuideParamsSchema,
+  parseToolArgs,
+  RequestBuilderOutputSchema,
+  RequestBuilderParamsSchema,
+  toInputSchema,
+  toOutputSchema,
+} from "./schemas.js";
+
+export const SERVER_INFO = {
+  name: "searchspring-mcp-server",
+  version: "1.0.0",
+};
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  schema: z.ZodObject<z.ZodRawShape>;
+  outputSchema: z.ZodObject<z.ZodRawShape>;
+  handle(client: SearchspringClient, args: unknown): Promise<CallToolResult>;
+}
+
+// Tool definitions for Searchspring APIs - input and output schemas are generated from the Zod schemas
+const toolDefinitions: ToolDefinition[] = [
+  {
+    name: "searchspring_api_guide",
+    description: "Get comprehensive implementation guidance for any Searchspring API",
+    schema: ApiGuideParamsSchema,
+    outputSchema: ApiGuideOutputSchema,
+    handle: (client, args) => client.getApiGuide(parseToolArgs("searchspring_api_guide", ApiGuideParamsSchema, args)),
+  },
+  {
+    name: "searchspring_parameter_guide",
+    description: "Get detailed explanation for specific API parameters, their usage, and best practices",
+    schema: ParameterGuideParamsSchema,
+    outputSchema: ParameterGuideOutputSchema,
+    handle: (client, args) => client.getParameterGuide(parseToolArgs("searchspring_parameter_guide", ParameterGuideParamsSchema, args)),
+  },
+  {
+    name: "searchspring_code_generator",
+    description: "Generate implementation code for any Searchspring API with platform-specific examples; when a platform has no template of its own the fallback template used is named in templatePlatform and fallback",
+    schema: CodeGeneratorParamsSchema,
+    outputSchema: CodeGeneratorOutputSchema,
+    handle: (client, args) => client.generateCode(parseToolArgs("searchspring_code_generator", CodeGeneratorParamsSchema, args)),
+  },
+  {
+    name: "searchspring_code_validator",
+    description: "Validate and troubleshoot Searchspring implementation code. JavaScript (and the inline scripts in HTML and theme templates) is parsed to find the actual tracking calls, fetch calls, URLs and request parameters; each finding has a rule id, severity, and the line and column it refers to",
+    schema: CodeValidationParamsSchema,
+    outputSchema: CodeValidationOutputSchema,
+    handle: (client, args) => client.validateCode(parseToolArgs("searchspring_code_validator", CodeValidationParamsSchema, args)),
+  },
+  {
+    name: "searchspring_list_rules",
+    description: "List the code validator rules with their ids, descriptions, the implementation types and platforms they check, severity and documentation link. Severities reflect the configured rules file; findings can be suppressed in code with searchspring-disable-next-line <rule-id> comments",
+    schema: ListRulesParamsSchema,
+    outputSchema: ListRulesOutputSchema,
+    handle: (client, args) => client.listRules(parseToolArgs("searchspring_list_rules", ListRulesParamsSchema, args)),
+  },
+  {
+    name: "searchspring_beacon_validator",
+    description: "Validate Beacon API event payloads (recommendation profile events, search result impression/click events and shop product.view/cart.view/order.transaction events) against the beacon event schema: category, type, context (pageLoadId UUID, userId, sessionId, website.trackingCode) and event-type-specific fields, with per-field errors",
+    schema: BeaconValidationParamsSchema,
+    outputSchema: BeaconValidationOutputSchema,
+    handle: (client, args) => client.validateBeacon(parseToolArgs("searchspring_beacon_validator", BeaconValidationParamsSchema, args)),
+  },
+  {
+    name: "searchspring_migrate_tracking",
+    description: "Migrate IntelliSuggest tracking code (ss.track.product.view, cart.add, purchase.buy) to Beacon API events with the correct context fields: returns the rewritten code, a side-by-side diff and the behaviors that need migrating by hand",
+    schema: MigrateTrackingParamsSchema,
+    outputSchema: MigrateTrackingOutputSchema,
+    handle: (client, args) => client.migrateTracking(parseToolArgs("searchspring_migrate_tracking", MigrateTrackingParamsSchema, args)),
+  },
+  {
+    name: "searchspring_feed_validator",
+    description: "Validate a local CSV, TSV, JSON or XML product feed file before bulk indexing: missing core fields (sku, name, price, url, image), duplicate SKUs, malformed prices and URLs, encoding problems and size stats",
+    schema: FeedValidationParamsSchema,
+    outputSchema: FeedValidationOutputSchema,
+    handle: (client, args) => client.validateFeed(parseToolArgs("searchspring_feed_validator", FeedValidationParamsSchema, args)),
+  },
+  {
+    name: "searchspring_feed_generator",
+    description: "Convert a Shopify, BigCommerce, Magento or custom CSV/JSON product export into a Searchspring feed file: configurable field mapping, variant flattening (one record per product or per variant) and category hierarchy fields; the result is checked with the feed validator",
+    schema: FeedGeneratorParamsSchema,
+    outputSchema: FeedGeneratorOutputSchema,
+    handle: (client, args) => client.generateFeed(parseToolArgs("searchspring_feed_generator", FeedGeneratorParamsSchema, args)),
+  },
+  {
+    name: "searchspring_docs_search",
+    description: "Search all API guides, parameter guides, best practices and troubleshooting notes with a free-text question; each result names the API/parameter it came from and the tool to call next",
+    schema: DocsSearchParamsSchema,
+    outputSchema: DocsSearchOutputSchema,
+    handle: (client, args) => client.searchDocs(parseToolArgs("searchspring_docs_search", DocsSearchParamsSchema, args)),
+  },
+  {
+    name: "searchspring_request_builder",
+    description: "Build a correctly encoded Searchspring API request URL (filters, background filters, sort, pagination, tracking and shopper context) with fetch and curl equivalents, checked against the API's required parameters",
+    schema: RequestBuilderParamsSchema,
+    outputSchema: RequestBuilderOutputSchema,
+    handle: (client, args) => client.buildRequest(parseToolArgs("searchspring_request_builder", RequestBuilderParamsSchema, args)),
+  },
+  {
+    name: "searchspring_explain_request",
+    description: "Explain a Searchspring API request URL (e.g. from the browser network tab): identifies the API, explains every parameter and flags missing required parameters, unknown parameters, bad filter range syntax and unencoded values",
+    schema: ExplainRequestParamsSchema,
+    outputSchema: ExplainRequestOutputSchema,
+    handle: (client, args) => client.explainRequest(parseToolArgs("searchspring_explain_request", ExplainRequestParamsSchema, args)),
+  },
+  {
+    name: "searchspring_bulk_index",
+    description: "Trigger a Bulk Indexing API job (PUT for cart platform feeds, POST to upload a feed file) with the configured site ID and secret key, or check a job's status. Refuses triggers inside the hourly limit recorded locally and while a job is running; secrets are redacted from all output. Requires SEARCHSPRING_SITE_ID and SEARCHSPRING_SECRET_KEY",
+    schema: BulkIndexParamsSchema,
+    outputSchema: BulkIndexOutputSchema,
+    handle: (client, args) => client.bulkIndex(parseToolArgs("searchspring_bulk_index", BulkIndexParamsSchema, args)),
+  },
+  {
+    name: "searchspring_live_search",
+    description: "Run a real Search API query for the configured site ID and summarize the results, facets, spell correction, merchandising campaigns and redirects - for debugging merchandising with live data. Requires SEARCHSPRING_SITE_ID",
+    schema: LiveSearchParamsSchema,
+    outputSchema: LiveQueryOutputSchema,
+    handle: (client, args) => client.liveSearch(parseToolArgs("searchspring_live_search", LiveSearchParamsSchema, args)),
+  },
+  {
+    name: "searchspring_live_autocomplete",
+    description: "Run a real Autocomplete API query for the configured site ID and summarize the suggested products, facets, merchandising and redirects. Requires SEARCHSPRING_SITE_ID",
+    schema: LiveAutocompleteParamsSchema,
+    outputSchema: LiveQueryOutputSchema,
+    handle: (client, args) => client.liveAutocomplete(parseToolArgs("searchspring_live_autocomplete", LiveAutocompleteParamsSchema, args)),
+  },
+];
+
+const tools: Tool[] = toolDefinitions.map(({ name, description, schema, outputSchema }) => ({
+  name,
+  description,
+  inputSchema: toInputSchema(schema),
+  outputSchema: toOutputSchema(outputSchema),
+}));
+
+// Build an MCP server bound to the given client. Stdio mode creates one of
+// these; HTTP mode creates one per session since a Server owns one transport.
+export function createServer(searchspringClient: SearchspringClient): Server {
+  const server = new Server(SERVER_INFO, {
+    capabilities: {
+      tools: {},
+      resources: {},
+      prompts: {},
+    },
+  });
+
+  // List available tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools };
+  });
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    try {
+      const tool = toolDefinitions.find(definition => definition.name === name);
+      if (!tool) {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+      return await tool.handle(searchspringClient, args);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+
+  // List API and parameter guides as browsable resources
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: listResources(searchspringClient) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return await readResource(searchspringClient, request.params.uri);
+  });
+
+  // Guided multi-step integration workflows
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+
+  return server;
+}
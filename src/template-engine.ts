@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { GeneratorPlatformSchema } from "./schemas.js";
+
+type GeneratorPlatform = z.infer<typeof GeneratorPlatformSchema>;
+
+// Placeholders: [[dotted.path]] inserts a context value, [[> name]] includes a partial
+const PLACEHOLDER_PATTERN = /\[\[(>\s*)?([\w.-]+)\]\]/g;
+
+const MAX_PARTIAL_DEPTH = 5;
+
+export interface PlatformContext {
+  label: string;
+  // Template language the platform's files are written in
+  dialect: "javascript" | "php" | "python" | "liquid" | "handlebars" | "phtml" | "mivascript" | "smarty" | "html";
+  // Line comment markers in that language
+  comment: [string, string];
+  // Expression that prints the current product's SKU as a JavaScript string inside an inline <script>
+  productSku: string;
+}
+
+// Variables each platform's templates (and the partials they include) are rendered with, as [[platform.*]]
+export const PLATFORM_CONTEXTS: Partial<Record<GeneratorPlatform, PlatformContext>> = {
+  javascript: { label: "JavaScript", dialect: "javascript", comment: ["// ", ""], productSku: "getProductSku()" },
+  php: { label: "PHP", dialect: "php", comment: ["// ", ""], productSku: "$productSku" },
+  python: { label: "Python", dialect: "python", comment: ["# ", ""], productSku: "product_sku" },
+  shopify: {
+    label: "Shopify",
+    dialect: "liquid",
+    comment: ["{% comment %} ", " {% endcomment %}"],
+    productSku: "{{ product.selected_or_first_available_variant.sku | json }}",
+  },
+  "bigcommerce-stencil": { label: "BigCommerce Stencil", dialect: "handlebars", comment: ["{{!-- ", " --}}"], productSku: "{{{json product.sku}}}" },
+  "bigcommerce-blueprint": { label: "BigCommerce Blueprint", dialect: "html", comment: ["<!-- ", " -->"], productSku: "'%%GLOBAL_SKU%%'" },
+  magento1: { label: "Magento 1", dialect: "phtml", comment: ["<?php /* ", " */ ?>"], productSku: "<?php echo json_encode($_product->getSku()) ?>" },
+  magento2: { label: "Magento 2", dialect: "phtml", comment: ["<?php /* ", " */ ?>"], productSku: "<?= json_encode($block->getProduct()->getSku()) ?>" },
+  miva: { label: "Miva", dialect: "mivascript", comment: ["<mvt:comment> ", " </mvt:comment>"], productSku: "'&mvtj:product:code;'" },
+  commercev3: { label: "CommerceV3", dialect: "smarty", comment: ["{* ", " *}"], productSku: "'{$product.SKU|escape:'javascript'}'" },
+  "3dcart": { label: "3dcart", dialect: "html", comment: ["<!-- ", " -->"], productSku: "'[id]'" },
+  volusion: { label: "Volusion", dialect: "html", comment: ["<!-- ", " -->"], productSku: "global_Current_ProductCode" },
+  custom: { label: "Custom HTML", dialect: "html", comment: ["<!-- ", " -->"], productSku: "'PRODUCT_SKU'" },
+};
+
+const DEFAULT_PLATFORM_CONTEXT: PlatformContext = PLATFORM_CONTEXTS.custom!;
+
+// Platform names that are another name for a platform with its own templates. Plain
+// "bigcommerce" means Stencil, the theme engine every current BigCommerce store runs.
+export const PLATFORM_ALIASES: Partial<Record<GeneratorPlatform, GeneratorPlatform>> = {
+  bigcommerce: "bigcommerce-stencil",
+};
+
+// Platforms whose templates stand in, in order, when a platform has none of its own. Server-side
+// languages have no fallback - browser JavaScript is no use to a PHP or Python backend.
+export const API_TEMPLATE_FALLBACKS: Record<GeneratorPlatform, GeneratorPlatform[]> = {
+  shopify: ["javascript"],
+  bigcommerce: ["javascript"],
+  "bigcommerce-blueprint": ["javascript"],
+  "bigcommerce-stencil": ["javascript"],
+  magento1: ["magento2", "javascript"],
+  magento2: ["javascript"],
+  miva: ["javascript"],
+  commercev3: ["javascript"],
+  "3dcart": ["javascript"],
+  volusion: ["javascript"],
+  custom: ["javascript"],
+  javascript: [],
+  php: [],
+  python: [],
+};
+
+// Tracking snippets are storefront HTML, so the custom HTML snippet works anywhere
+export const TRACKING_TEMPLATE_FALLBACKS: Partial<Record<GeneratorPlatform, GeneratorPlatform[]>> = {
+  magento1: ["magento2", "custom"],
+};
+
+export const DEFAULT_TRACKING_FALLBACKS: GeneratorPlatform[] = ["custom"];
+
+export interface ResolvedTemplate {
+  // Platform whose template was found
+  platform: GeneratorPlatform;
+  template: string;
+  // Set when platform differs from the one requested
+  fallback?: string;
+}
+
+// The platform whose templates a requested platform uses
+export function canonicalPlatform(platform: GeneratorPlatform): GeneratorPlatform {
+  return PLATFORM_ALIASES[platform] ?? platform;
+}
+
+export function platformContext(platform: GeneratorPlatform): PlatformContext {
+  return PLATFORM_CONTEXTS[canonicalPlatform(platform)] ?? DEFAULT_PLATFORM_CONTEXT;
+}
+
+// The requested platform's template (under its canonical name), or the first fallback that has one
+export function resolveTemplate(
+  templates: Record<string, string> | undefined,
+  platform: GeneratorPlatform,
+  fallbacks: GeneratorPlatform[],
+  subject: string
+): ResolvedTemplate | undefined {
+  const own = templates?.[canonicalPlatform(platform)];
+  if (own !== undefined) {
+    return { platform: canonicalPlatform(platform), template: own };
+  }
+  for (const candidate of fallbacks) {
+    const template = templates?.[candidate];
+    if (template !== undefined) {
+      return {
+        platform: candidate,
+        template,
+        fallback: `There is no ${platformContext(platform).label} template for ${subject}, so this is the ${platformContext(candidate).label} template`,
+      };
+    }
+  }
+  return undefined;
+}
+
+// A comment line in the platform's template language
+export function commentLine(platform: GeneratorPlatform, text: string): string {
+  const [start, end] = platformContext(platform).comment;
+  return `${start}${text}${end}`;
+}
+
+// Replace [[dotted.path]] placeholders with values from the context and [[> name]] with the
+// rendered partial. A partial included on a line of its own is indented to match.
+export function renderTemplate(
+  template: string,
+  context: Record<string, unknown>,
+  partials: Record<string, string> = {},
+  depth = 0
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, include: string | undefined, path: string, offset: number) => {
+    if (include) {
+      const partial = partials[path];
+      if (partial === undefined) {
+        throw new Error(`Unknown template partial ${placeholder}`);
+      }
+      if (depth >= MAX_PARTIAL_DEPTH) {
+        throw new Error(`Template partials are nested more than ${MAX_PARTIAL_DEPTH} deep at ${placeholder}`);
+      }
+      const indent = template.slice(template.lastIndexOf("\n", offset - 1) + 1, offset);
+      const rendered = renderTemplate(partial, context, partials, depth + 1);
+      return /^\s*$/.test(indent) ? rendered.replace(/\n(?=.)/g, `\n${indent}`) : rendered;
+    }
+
+    let value: unknown = context;
+    for (const key of path.split(".")) {
+      value = value !== null && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    if (value === undefined) {
+      throw new Error(`Unknown template placeholder ${placeholder}`);
+    }
+    return String(value);
+  });
+}
+
+// Names of the partials a template includes directly
+export function findPartialReferences(template: string): string[] {
+  return [...template.matchAll(PLACEHOLDER_PATTERN)].filter(([, include]) => include).map(([, , name = ""]) => name);
+}
@@ -0,0 +1,303 @@
+import { z } from "zod";
+import { SHOP_EVENT_CATEGORIES } from "./beacon-validator.js";
+import { analyzeCode, CallSite } from "./code-analyzer.js";
+import { MigrateTrackingOutputSchema, MigrateTrackingParamsSchema } from "./schemas.js";
+
+export type MigrateTrackingParams = z.infer<typeof MigrateTrackingParamsSchema>;
+
+export type MigrateTrackingOutput = z.infer<typeof MigrateTrackingOutputSchema>;
+
+type Finding = MigrateTrackingOutput["findings"][number];
+
+type BeaconType = keyof typeof SHOP_EVENT_CATEGORIES;
+
+// IntelliSuggest calls with a Beacon API equivalent, and the fields each event keeps
+const MIGRATIONS: Record<string, { type: BeaconType; fields: string[] }> = {
+  "ss.track.product.view": { type: "product.view", fields: ["sku"] },
+  "ss.track.cart.add": { type: "cart.view", fields: ["sku", "price", "quantity"] },
+  "ss.track.purchase.buy": { type: "order.transaction", fields: ["sku", "price", "quantity"] },
+};
+
+// Fields IntelliSuggest sent that the Beacon API reads from the feed instead
+const FEED_FIELDS = ["name"];
+
+// Where a parsed ss.track call's name and opening bracket are, from the start of the call
+const CALL_PATTERN = /\bss\.track\.[\w.]+\s*\(/g;
+
+const LEGACY_CALLEE_PATTERN = /^IntelliSuggest\.(\w+)$/;
+
+const SCRIPT_TAG_PATTERN = /^[ \t]*<script\b[^>]*\bsrc=["'][^"']*intellisuggest[^"']*\.js["'][^>]*>\s*<\/script>[ \t]*\n?/gim;
+
+const GUARD_PATTERN = /typeof\s+ss\s*!==?\s*(["'])undefined\1/g;
+
+// Template loop tags: a call after more openers than closers runs once per item
+const LOOP_TAGS: [RegExp, RegExp][] = [
+  [/\{%-?\s*for\b/g, /\{%-?\s*endfor\b/g],
+  [/\{\{#each\b/g, /\{\{\/each\b/g],
+  [/\bforeach\s*\(/g, /\bendforeach\b/g],
+  [/<mvt:foreach\b/g, /<\/mvt:foreach>/g],
+  [/\{foreach\b/g, /\{\/foreach\}/g],
+  [/<!--\s*START:/g, /<!--\s*END:/g],
+];
+
+// Past diffs this size, the diff lists every line as changed instead of aligning them
+const MAX_DIFF_CELLS = 1_000_000;
+
+const DIFF_COLUMN_WIDTH = 60;
+
+// Index of the bracket closing the one at start, skipping strings; -1 when unbalanced
+function findClosing(code: string, start: number): number {
+  const stack: string[] = [];
+  const pairs: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+  let quote = "";
+  for (let index = start; index < code.length; index++) {
+    const char = code[index] ?? "";
+    if (quote) {
+      if (char === "\\") index++;
+      else if (char === quote) quote = "";
+      continue;
+    }
+    if (char === "'" || char === '"' || char === "`") {
+      quote = char;
+    } else if (pairs[char]) {
+      stack.push(pairs[char]);
+    } else if (char === ")" || char === "]" || char === "}") {
+      if (stack.pop() !== char) return -1;
+      if (stack.length === 0) return index;
+    }
+  }
+  return -1;
+}
+
+// Split on commas outside brackets and strings
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = "";
+  let current = "";
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index] ?? "";
+    current += char;
+    if (quote) {
+      if (char === "\\") current += text[++index] ?? "";
+      else if (char === quote) quote = "";
+      continue;
+    }
+    if (char === "'" || char === '"' || char === "`") quote = char;
+    else if ("([{".includes(char)) depth++;
+    else if (")]}".includes(char)) depth--;
+    else if (char === "," && depth === 0) {
+      parts.push(current.slice(0, -1));
+      current = "";
+    }
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+// Properties of an object literal argument, or undefined when the argument is not one
+function parseObjectLiteral(argument: string): Map<string, string> | undefined {
+  const text = argument.trim();
+  if (!text.startsWith("{") || findClosing(text, 0) !== text.length - 1) {
+    return undefined;
+  }
+  const properties = new Map<string, string>();
+  for (const part of splitTopLevel(text.slice(1, -1))) {
+    const match = part.match(/^["']?([\w$]+)["']?\s*:\s*([\s\S]+)$/);
+    if (match?.[1] && match[2]) properties.set(match[1], match[2].trim());
+    else if (/^[\w$]+$/.test(part)) properties.set(part, part);
+    else return undefined;
+  }
+  return properties;
+}
+
+// Offset in code of a 1-based line and column
+function offsetOf(code: string, { line, column }: CallSite): number {
+  let offset = 0;
+  for (let current = 1; current < line; current++) {
+    offset = code.indexOf("\n", offset) + 1;
+  }
+  return offset + column - 1;
+}
+
+function insideLoop(code: string, offset: number): boolean {
+  const before = code.slice(0, offset);
+  return LOOP_TAGS.some(([open, close]) => (before.match(open)?.length ?? 0) > (before.match(close)?.length ?? 0));
+}
+
+function beaconCall(type: BeaconType, properties: Map<string, string>, indent: string): string {
+  const item = () => `{ sku: ${properties.get("sku") ?? "''"}, price: ${properties.get("price") ?? "0"}, qty: ${properties.get("quantity") ?? "1"} }`;
+  const event = type === "product.view"
+    ? [`sku: ${properties.get("sku") ?? "''"}`]
+    : type === "cart.view"
+      ? [`items: [${item()}]`]
+      : ["order: { id: 'ORDER_ID' }", `items: [${item()}]`];
+  return `searchspringBeacon('${type}', '${SHOP_EVENT_CATEGORIES[type]}', {\n${event.map(line => `${indent}  ${line}`).join(",\n")}\n${indent}})`;
+}
+
+// Line-by-line side-by-side diff in the style of diff -y: | changed, < removed, > added
+export function sideBySideDiff(before: string, after: string): string {
+  const left = before.split("\n");
+  const right = after.split("\n");
+  const rows: [string, string, string][] = [];
+
+  if (left.length * right.length > MAX_DIFF_CELLS) {
+    left.forEach(line => rows.push([line, "<", ""]));
+    right.forEach(line => rows.push(["", ">", line]));
+  } else {
+    // lengths[i][j] is the longest common subsequence of left[i..] and right[j..]
+    const lengths = Array.from({ length: left.length + 1 }, () => new Array<number>(right.length + 1).fill(0));
+    for (let i = left.length - 1; i >= 0; i--) {
+      for (let j = right.length - 1; j >= 0; j--) {
+        lengths[i]![j] = left[i] === right[j] ? lengths[i + 1]![j + 1]! + 1 : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    let removed: string[] = [];
+    let added: string[] = [];
+    const flushChanges = () => {
+      for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+        const from = removed[k];
+        const to = added[k];
+        rows.push([from ?? "", from !== undefined && to !== undefined ? "|" : from !== undefined ? "<" : ">", to ?? ""]);
+      }
+      removed = [];
+      added = [];
+    };
+    while (i < left.length || j < right.length) {
+      if (i < left.length && j < right.length && left[i] === right[j]) {
+        flushChanges();
+        rows.push([left[i]!, " ", right[j]!]);
+        i++;
+        j++;
+      } else if (j >= right.length || (i < left.length && lengths[i + 1]![j]! >= lengths[i]![j + 1]!)) {
+        removed.push(left[i++]!);
+      } else {
+        added.push(right[j++]!);
+      }
+    }
+    flushChanges();
+  }
+
+  const width = Math.min(DIFF_COLUMN_WIDTH, Math.max(0, ...rows.map(([from]) => from.length)));
+  return rows.map(([from, marker, to]) => `${from.padEnd(width)} ${marker} ${to}`.trimEnd()).join("\n");
+}
+
+// Rewrite IntelliSuggest ss.track.* calls as Beacon API events sent through beaconClient, the
+// rendered searchspringBeacon() helper, and report what could not be carried over
+export function migrateTracking(params: MigrateTrackingParams, beaconClient: string): MigrateTrackingOutput {
+  const { code, platform } = params;
+  const findings: Finding[] = [];
+  const calls: MigrateTrackingOutput["calls"] = [];
+  const replacements: { start: number; end: number; text: string }[] = [];
+  // Calls are read from parsed code, so commented-out calls are left alone
+  const sites = analyzeCode(code).calls;
+
+  for (const site of sites.filter(({ callee }) => callee.startsWith("ss.track."))) {
+    const { callee: call, line } = site;
+    CALL_PATTERN.lastIndex = offsetOf(code, site);
+    const match = CALL_PATTERN.exec(code);
+    if (!match || match[0].replace(/\s*\($/, "") !== call) {
+      calls.push({ line, call });
+      findings.push({ ruleId: "migrate-tracking/unsupported-call", severity: "warning", message: `Line ${line}: ${call} is written in a form that cannot be rewritten automatically - migrate it by hand` });
+      continue;
+    }
+    const start = match.index;
+    const open = start + match[0].length - 1;
+    const close = findClosing(code, open);
+    const migration = MIGRATIONS[call];
+    const properties = close === -1 ? undefined : parseObjectLiteral(code.slice(open + 1, close));
+
+    if (!migration) {
+      calls.push({ line, call });
+      findings.push({ ruleId: "migrate-tracking/unsupported-call", severity: "warning", message: `Line ${line}: ${call} has no Beacon API equivalent - migrate it by hand or remove it` });
+      continue;
+    }
+    if (!properties) {
+      calls.push({ line, call });
+      findings.push({ ruleId: "migrate-tracking/not-object", severity: "warning", message: `Line ${line}: ${call} is not called with an object literal, so its fields cannot be mapped - pass { sku, price, quantity } directly` });
+      continue;
+    }
+
+    const indent = code.slice(code.lastIndexOf("\n", start - 1) + 1, start).match(/^\s*/)?.[0] ?? "";
+    replacements.push({ start, end: close + 1, text: beaconCall(migration.type, properties, indent) });
+    calls.push({ line, call, beaconType: migration.type });
+
+    for (const field of properties.keys()) {
+      if (migration.fields.includes(field)) continue;
+      findings.push(FEED_FIELDS.includes(field)
+        ? { ruleId: "migrate-tracking/dropped-field", severity: "suggestion", message: `Line ${line}: '${field}' is not sent with ${migration.type} - Searchspring reads it from your feed` }
+        : { ruleId: "migrate-tracking/dropped-field", severity: "warning", message: `Line ${line}: '${field}' has no ${migration.type} field and was dropped` });
+    }
+    if (!properties.has("sku")) {
+      findings.push({ ruleId: "migrate-tracking/missing-sku", severity: "error", message: `Line ${line}: ${call} has no sku - the ${migration.type} event needs one` });
+    }
+    if (migration.type !== "product.view" && !properties.has("quantity")) {
+      findings.push({ ruleId: "migrate-tracking/quantity", severity: "suggestion", message: `Line ${line}: no quantity was passed, so qty is set to 1` });
+    }
+    const loop = insideLoop(code, start);
+    if (migration.type === "cart.view" && loop) {
+      findings.push({ ruleId: "migrate-tracking/loop", severity: "warning", message: `Line ${line}: cart.add ran once per cart item, but cart.view describes the whole cart - collect the items into one items array and send a single event` });
+    }
+    if (migration.type === "order.transaction") {
+      findings.push({ ruleId: "migrate-tracking/order-id", severity: "error", message: `Line ${line}: purchase.buy had no order ID - replace 'ORDER_ID' with the order number from your confirmation page` });
+      if (loop) {
+        findings.push({ ruleId: "migrate-tracking/loop", severity: "warning", message: `Line ${line}: purchase.buy ran once per order line - send one order.transaction with every line in items, or each line is counted as a separate order` });
+      }
+    }
+  }
+
+  for (const { callee, line } of sites) {
+    const method = LEGACY_CALLEE_PATTERN.exec(callee)?.[1];
+    if (method === undefined) continue;
+    calls.push({ line, call: callee });
+    findings.push({ ruleId: "migrate-tracking/unsupported-call", severity: "warning", message: `Line ${line}: IntelliSuggest.${method} is not migrated automatically - rewrite it with ss.track.* calls first or send the Beacon event by hand` });
+  }
+  calls.sort((a, b) => a.line - b.line);
+
+  if (/\b_isuid\b/.test(code)) {
+    findings.push({ ruleId: "migrate-tracking/isuid", severity: "warning", message: "The Beacon API identifies shoppers with the ssUserId and ssSessionIdNamespace cookies - code reading _isuid needs updating by hand" });
+  }
+  if (platform === "shopify" && calls.some(call => call.beaconType === "order.transaction")) {
+    findings.push({ ruleId: "migrate-tracking/shopify-checkout", severity: "suggestion", message: "Shopify checkout extensibility runs no theme code on the thank-you page - generate the Web Pixel extension with searchspring_code_generator (api: beacon, platform: shopify, eventType: sale) instead" });
+  }
+  if (replacements.length === 0) {
+    findings.unshift({ ruleId: "migrate-tracking/no-calls", severity: "error", message: "No ss.track.product.view, ss.track.cart.add or ss.track.purchase.buy calls were found to migrate" });
+    return { code, calls, diff: sideBySideDiff(code, code), findings };
+  }
+
+  let migrated = code;
+  for (const { start, end, text } of replacements.reverse()) {
+    migrated = migrated.slice(0, start) + text + migrated.slice(end);
+  }
+
+  // Calls left for manual migration still need IntelliSuggest, so its script tag and the
+  // typeof ss guards stay until they are migrated too
+  const remaining = calls.filter(call => !call.beaconType).length;
+  if (remaining === 0) {
+    migrated = migrated.replace(GUARD_PATTERN, "typeof searchspringBeacon == 'function'");
+  } else {
+    findings.push({ ruleId: "migrate-tracking/intellisuggest-kept", severity: "warning", message: `The IntelliSuggest script and typeof ss guards were kept for the ${remaining} call${remaining === 1 ? "" : "s"} left to migrate by hand - remove them once those calls are migrated` });
+  }
+
+  // The helper takes the place of the IntelliSuggest script tag (or follows it while the tag is
+  // still needed), or opens the first script
+  const helper = beaconClient.replace(/\n$/, "");
+  if (migrated.search(SCRIPT_TAG_PATTERN) !== -1 && remaining > 0) {
+    migrated = migrated.replace(new RegExp(SCRIPT_TAG_PATTERN.source, "im"), tag => `${tag.replace(/\n?$/, "\n")}<script>\n${helper}\n</script>\n`);
+  } else if (migrated.search(SCRIPT_TAG_PATTERN) !== -1) {
+    let placed = false;
+    migrated = migrated.replace(SCRIPT_TAG_PATTERN, () => {
+      const replacement = placed ? "" : `<script>\n${helper}\n</script>\n`;
+      placed = true;
+      return replacement;
+    });
+  } else if (/<script\b[^>]*>/i.test(migrated)) {
+    migrated = migrated.replace(/<script\b[^>]*>\n?/i, tag => `${tag.replace(/\n?$/, "\n")}${helper}\n\n`);
+  } else {
+    migrated = `${helper}\n\n${migrated}`;
+  }
+
+  return { code: migrated, calls, diff: sideBySideDiff(code, migrated), findings };
+}